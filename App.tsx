@@ -1,42 +1,241 @@
-import React, { useState, useEffect } from 'react';
-import { APP_NAME, APP_VERSION } from './constants';
-import { GameState, StudySessionData, InputContext } from './types';
-import { generateGameSession } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { APP_NAME, APP_VERSION, DEFAULT_PROFILE_ID } from './constants';
+import { GameState, InputContext, SavedSession, SessionProgress, GenerationSettings, IngestionProgress, StudySessionData, LearnerProfile, LearnerPreferences } from './types';
+import { GenerationOptions, generateGameSession } from './services/geminiService';
+import { LLMProvider, createProvider, resolveProviderConfig, withSignal } from './services/llm/provider';
+import { createSession, saveProgress } from './services/sessionStore';
+import { createProfile, deleteProfile, loadProfiles, newProfile, putProfile, setActiveProfileId } from './services/profileStore';
+import { SessionBundle, bundleProgress } from './services/bundle';
+import { describeError, isAborted } from './services/errors';
 import Ingest from './components/Ingest';
 import Session from './components/Session';
-import { Brain, Loader2 } from 'lucide-react';
+import Library from './components/Library';
+import Debrief from './components/Debrief';
+import SessionEditor from './components/SessionEditor';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import { Brain, Loader2, Archive, XCircle } from 'lucide-react';
+
+// Single-pass runs advance with each decoded concept, long texts with each extracted segment
+const ingestionRatio = (progress: IngestionProgress) => progress.stage === 'GENERATING' && progress.preview
+    ? progress.preview.concepts.length / (progress.preview.conceptsTotal + 1)
+    : progress.completed / (progress.total + 1);
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.INIT);
-  const [apiKey, setApiKey] = useState('');
-  const [inputContext, setInputContext] = useState<InputContext | null>(null);
-  const [sessionData, setSessionData] = useState<StudySessionData | null>(null);
+  const [provider, setProvider] = useState<LLMProvider | null>(null);
+  const [activeSession, setActiveSession] = useState<SavedSession | null>(null);
+  const [ingestion, setIngestion] = useState<IngestionProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [streamingSessionId, setStreamingSessionId] = useState<string | null>(null);
+  const processingRef = useRef<AbortController | null>(null);
+  // The learner studying on this machine; sessions, mastery and preferences are kept per profile
+  const [profile, setProfile] = useState<LearnerProfile | null>(null);
+  const [profiles, setProfiles] = useState<LearnerProfile[]>([]);
 
   useEffect(() => {
-    // Strictly adhere to process.env.API_KEY usage
-    if (process.env.API_KEY) {
-        setApiKey(process.env.API_KEY);
+    // Provider and credentials come strictly from process.env (see vite.config.ts)
+    try {
+        setProvider(createProvider(resolveProviderConfig()));
         setGameState(GameState.INGESTION);
-    } else {
+    } catch (e) {
+        console.error(e);
         setError("CRITICAL SYSTEM FAILURE: ENV_KEY_MISSING. Please configure the environment correctly.");
     }
   }, []);
 
-  const handleStartProcessing = async (input: InputContext) => {
-    setInputContext(input);
+  useEffect(() => {
+    loadProfiles()
+        .then(({ profiles, active }) => {
+            setProfiles(profiles);
+            setProfile(active);
+        })
+        .catch(e => {
+            // Storage is best-effort; without it everyone studies as the default learner
+            console.error(e);
+            const fallback = newProfile('Learner 1', { id: DEFAULT_PROFILE_ID });
+            setProfiles([fallback]);
+            setProfile(fallback);
+        });
+  }, []);
+
+  const saveProfile = (next: LearnerProfile) => {
+    setProfile(next);
+    setProfiles(prev => prev.map(p => p.id === next.id ? next : p));
+    putProfile(next).catch(console.error);
+  };
+
+  const handlePreferencesChange = (changes: Partial<LearnerPreferences>) => {
+    if (!profile) return;
+    saveProfile({ ...profile, preferences: { ...profile.preferences, ...changes }, updatedAt: Date.now() });
+  };
+
+  // Another learner's open session is closed; the archive reloads with the new learner's sessions
+  const handleSwitchProfile = (next: LearnerProfile) => {
+    setActiveProfileId(next.id);
+    setProfile(next);
+    setActiveSession(null);
+    if (gameState !== GameState.LIBRARY) setGameState(GameState.INGESTION);
+  };
+
+  const handleCreateProfile = async (name: string) => {
+    let created: LearnerProfile;
+    try {
+        created = await createProfile(name);
+    } catch (storageError) {
+        console.error(storageError);
+        created = newProfile(name);
+    }
+    setProfiles(prev => [...prev, created]);
+    handleSwitchProfile(created);
+  };
+
+  const handleImportedProfile = (imported: LearnerProfile) => {
+    setProfiles(prev => [...prev, imported]);
+    handleSwitchProfile(imported);
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profile) return;
+    const remaining = profiles.filter(p => p.id !== profile.id);
+    if (remaining.length === 0) return;
+    try {
+        await deleteProfile(profile.id);
+    } catch (e) {
+        console.error(e);
+        return;
+    }
+    setProfiles(remaining);
+    handleSwitchProfile(remaining[0]);
+  };
+
+  // With `review` the finished session goes to the instructor editor instead of straight to students
+  const handleStartProcessing = async (input: InputContext, settings: GenerationSettings, options: GenerationOptions = {}, review = false) => {
+    if (!provider) return;
+    const controller = new AbortController();
+    processingRef.current = controller;
     setGameState(GameState.PROCESSING);
     setError(null);
+    setIngestion(null);
+
+    // Once the concept list is final the session opens in the Data Core while questions keep streaming
+    const sessionId = crypto.randomUUID();
+    let openedEarly = false;
+    const handleIngestion = (progress: IngestionProgress) => {
+        if (controller.signal.aborted) return;
+        setIngestion(progress);
+        const preview = progress.preview;
+        if (review || !preview?.conceptsReady) return;
+        const title = preview.title || 'Untitled Session';
+        setActiveSession(prev => prev?.id === sessionId
+            ? { ...prev, name: title, data: { ...prev.data, title, summary: preview.summary } }
+            : { id: sessionId, profileId: profile?.id, name: title, createdAt: Date.now(), updatedAt: Date.now(), context: input, settings,
+                data: { title, summary: preview.summary, concepts: preview.concepts, questions: [] } });
+        if (!openedEarly) {
+            openedEarly = true;
+            setStreamingSessionId(sessionId);
+            setGameState(GameState.SESSION_ACTIVE);
+        }
+    };
 
     try {
-        const data = await generateGameSession(input, apiKey);
-        setSessionData(data);
+        const data = await generateGameSession(input, withSignal(provider, controller.signal), settings, handleIngestion, options);
+        if (controller.signal.aborted) return;
+        if (review) {
+            // Nothing is stored until the instructor locks the reviewed session
+            setActiveSession({ id: sessionId, profileId: profile?.id, name: data.title, createdAt: Date.now(), updatedAt: Date.now(), context: input, settings, data });
+            setGameState(GameState.REVIEW);
+            return;
+        }
+        let saved: SavedSession;
+        try {
+            saved = await createSession(data, input, settings, { id: sessionId, profileId: profile?.id });
+        } catch (storageError) {
+            // Storage is best-effort; the session is still playable without it
+            console.error(storageError);
+            saved = { id: sessionId, profileId: profile?.id, name: data.title, createdAt: Date.now(), updatedAt: Date.now(), context: input, settings, data };
+        }
+        // Anything done while the questions streamed in is kept; Session re-reports it for storage
+        setActiveSession(prev => prev?.id === sessionId ? { ...saved, progress: prev.progress } : saved);
         setGameState(GameState.SESSION_ACTIVE);
     } catch (e) {
+        // The student already left the processing screen
+        if (isAborted(e) || controller.signal.aborted) return;
         console.error(e);
-        setError("Neural construction failed. The artifact may be too complex or the connection was interrupted.");
+        setError(describeError(e, "Neural construction failed. The artifact may be too complex or the connection was interrupted."));
         setGameState(GameState.INGESTION);
+    } finally {
+        if (processingRef.current === controller) {
+            processingRef.current = null;
+            setIngestion(null);
+        }
+        setStreamingSessionId(prev => prev === sessionId ? null : prev);
+    }
+  };
+
+  // Leaving the processing screen, or a session whose questions are still streaming, cancels generation
+  useEffect(() => {
+    if (gameState !== GameState.PROCESSING && gameState !== GameState.SESSION_ACTIVE) processingRef.current?.abort();
+  }, [gameState]);
+
+  const handleCancelProcessing = () => {
+    processingRef.current?.abort();
+    setIngestion(null);
+    setGameState(GameState.INGESTION);
+  };
+
+  const handleLockReview = async (data: StudySessionData) => {
+    if (!activeSession) return;
+    const { id, profileId, context, settings } = activeSession;
+    let saved: SavedSession;
+    try {
+        saved = await createSession(data, context, settings, { id, profileId });
+    } catch (storageError) {
+        console.error(storageError);
+        saved = { ...activeSession, name: data.title, updatedAt: Date.now(), data };
     }
+    setActiveSession(saved);
+    setGameState(GameState.SESSION_ACTIVE);
+  };
+
+  const handleDiscardReview = () => {
+    setActiveSession(null);
+    setGameState(GameState.INGESTION);
+  };
+
+  // Imported bundles arrive fully generated, so PROCESSING is skipped entirely
+  const handleImport = async (bundle: SessionBundle, context: InputContext) => {
+    setError(null);
+    const options = { profileId: profile?.id, name: bundle.name, progress: bundleProgress(bundle) };
+    let saved: SavedSession;
+    try {
+        saved = await createSession(bundle.data, context, bundle.settings, options);
+    } catch (storageError) {
+        console.error(storageError);
+        saved = { id: crypto.randomUUID(), createdAt: Date.now(), updatedAt: Date.now(), context, settings: bundle.settings, data: bundle.data, ...options };
+    }
+    setActiveSession(saved);
+    setGameState(GameState.SESSION_ACTIVE);
+  };
+
+  const handleOpenSaved = (session: SavedSession, conceptId?: string) => {
+    setError(null);
+    // Opening from the review queue lands directly on the due concept
+    setActiveSession(conceptId && session.progress
+        ? { ...session, progress: { ...session.progress, activeConceptId: conceptId, viewMode: 'DATA_CORE' } }
+        : session);
+    setGameState(GameState.SESSION_ACTIVE);
+  };
+
+  const activeSessionId = activeSession?.id;
+  const handleProgress = useCallback((progress: SessionProgress) => {
+    if (!activeSessionId) return;
+    setActiveSession(prev => prev && prev.id === activeSessionId ? { ...prev, progress } : prev);
+    saveProgress(activeSessionId, progress).catch(console.error);
+  }, [activeSessionId]);
+
+  const handleReturnToCore = () => {
+    setActiveSession(prev => prev && prev.progress ? { ...prev, progress: { ...prev.progress, viewMode: 'DATA_CORE' } } : prev);
+    setGameState(GameState.SESSION_ACTIVE);
   };
 
   return (
@@ -58,9 +257,32 @@ const App: React.FC = () => {
                     {APP_NAME} <span className="hidden sm:inline text-xs font-mono text-slate-500 font-normal">{APP_VERSION}</span>
                 </h1>
             </div>
-            <div className="text-xs font-mono text-slate-500 flex items-center gap-2">
-                <span className={`w-2 h-2 rounded-full ${apiKey ? 'bg-green-500' : 'bg-red-500'}`} />
-                <span className="hidden sm:inline">SYSTEM_</span>{apiKey ? 'ONLINE' : 'OFFLINE'}
+            <div className="flex items-center gap-4">
+                {/* Switching learners mid-generation or mid-review would orphan the draft */}
+                {profile && gameState !== GameState.PROCESSING && gameState !== GameState.REVIEW && (
+                    <ProfileSwitcher
+                        profile={profile}
+                        profiles={profiles}
+                        onSwitch={handleSwitchProfile}
+                        onCreate={handleCreateProfile}
+                        onRename={name => saveProfile({ ...profile, name, updatedAt: Date.now() })}
+                        onDelete={handleDeleteProfile}
+                        onImported={handleImportedProfile}
+                    />
+                )}
+                {provider && gameState !== GameState.PROCESSING && gameState !== GameState.REVIEW && gameState !== GameState.LIBRARY && (
+                    <button
+                        onClick={() => setGameState(GameState.LIBRARY)}
+                        className="flex items-center gap-2 text-xs font-mono text-slate-400 hover:text-cyan-400 transition-colors"
+                    >
+                        <Archive className="w-4 h-4" /> <span className="hidden sm:inline">ARCHIVE</span>
+                    </button>
+                )}
+                <div className="text-xs font-mono text-slate-500 flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${provider ? 'bg-green-500' : 'bg-red-500'}`} />
+                    <span className="hidden sm:inline">SYSTEM_</span>{provider ? 'ONLINE' : 'OFFLINE'}
+                    {provider && <span className="hidden md:inline text-slate-600">[{provider.name.toUpperCase()}:{provider.model}]</span>}
+                </div>
             </div>
         </header>
 
@@ -72,9 +294,15 @@ const App: React.FC = () => {
                  </div>
             )}
 
-            {gameState === GameState.INGESTION && (
+            {gameState === GameState.INGESTION && profile && (
                 <>
-                    <Ingest onStart={handleStartProcessing} />
+                    <Ingest
+                        key={profile.id}
+                        onStart={handleStartProcessing}
+                        onImport={handleImport}
+                        preferences={profile.preferences}
+                        onPreferencesChange={handlePreferencesChange}
+                    />
                     {error && (
                         <div className="max-w-xl mx-auto mt-4 p-4 bg-red-900/20 border border-red-500/50 rounded-lg text-red-200 text-sm text-center animate-pulse">
                             {error}
@@ -91,20 +319,104 @@ const App: React.FC = () => {
                         <Loader2 className="absolute inset-0 w-full h-full p-6 text-slate-600 animate-pulse" />
                     </div>
                     <h2 className="text-3xl font-display text-white mb-2">ANALYZING ARTIFACT</h2>
-                    <p className="text-slate-400 font-mono text-sm animate-pulse">Extracting concepts & neural pathways...</p>
+                    <p className="text-slate-400 font-mono text-sm animate-pulse">
+                        {!ingestion ? 'Establishing neural uplink...'
+                            : ingestion.stage === 'GENERATING' ? `Decoding concept ${Math.min((ingestion.preview?.concepts.length ?? 0) + 1, ingestion.preview?.conceptsTotal ?? 1)} of ${ingestion.preview?.conceptsTotal}...`
+                            : ingestion.stage === 'EXTRACTING' ? `Extracting segment ${Math.min(ingestion.completed + 1, ingestion.total)} of ${ingestion.total}...`
+                            : 'Merging segments & constructing simulation...'}
+                    </p>
                     <div className="mt-8 max-w-md mx-auto">
                         <div className="h-1 w-full bg-slate-800 rounded-full overflow-hidden">
-                            <div className="h-full bg-gradient-to-r from-cyan-500 to-purple-500 w-1/2 animate-[translateX_2s_ease-in-out_infinite]" />
+                            {ingestion ? (
+                                <div
+                                    className="h-full bg-gradient-to-r from-cyan-500 to-purple-500 transition-all duration-500"
+                                    style={{ width: `${ingestionRatio(ingestion) * 100}%` }}
+                                />
+                            ) : (
+                                <div className="h-full bg-gradient-to-r from-cyan-500 to-purple-500 w-1/2 animate-[translateX_2s_ease-in-out_infinite]" />
+                            )}
                         </div>
+                        {ingestion?.preview && (ingestion.preview.title || ingestion.preview.concepts.length > 0) && (
+                            <div className="mt-6 text-left glass-panel rounded-lg p-4 animate-fade-in">
+                                {ingestion.preview.title && <h3 className="font-display text-white font-bold">{ingestion.preview.title}</h3>}
+                                {ingestion.preview.summary && <p className="mt-1 text-xs text-slate-400 font-mono leading-relaxed line-clamp-3">{ingestion.preview.summary}</p>}
+                                <div className="mt-3 flex flex-wrap gap-1.5">
+                                    {ingestion.preview.concepts.map((concept, idx) => (
+                                        <span key={idx} className="px-2 py-0.5 rounded border border-cyan-500/30 bg-cyan-950/30 text-[10px] font-mono text-cyan-300 animate-fade-in">
+                                            {concept.term}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {ingestion && (
+                            <ul className="mt-6 space-y-1 text-left max-h-48 overflow-y-auto custom-scrollbar">
+                                {ingestion.chunks.map((chunk, idx) => (
+                                    <li key={idx} className="flex items-center justify-between text-[10px] font-mono">
+                                        <span className={`truncate ${chunk.status === 'DONE' ? 'text-cyan-400' : chunk.status === 'ACTIVE' ? 'text-white' : 'text-slate-600'}`}>
+                                            {String(idx + 1).padStart(2, '0')} {chunk.label}
+                                        </span>
+                                        <span className={chunk.status === 'DONE' ? 'text-cyan-400' : chunk.status === 'ACTIVE' ? 'text-purple-400 animate-pulse' : 'text-slate-600'}>
+                                            {chunk.status}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
+                    <button
+                        onClick={handleCancelProcessing}
+                        className="mt-8 inline-flex items-center gap-2 text-xs font-mono text-slate-500 hover:text-red-400 transition-colors"
+                    >
+                        <XCircle className="w-4 h-4" /> EXIT SYSTEM
+                    </button>
                 </div>
             )}
 
-            {gameState === GameState.SESSION_ACTIVE && sessionData && inputContext && (
+            {gameState === GameState.REVIEW && activeSession && provider && (
+                <SessionEditor
+                    key={activeSession.id}
+                    data={activeSession.data}
+                    context={activeSession.context}
+                    provider={provider}
+                    settings={activeSession.settings}
+                    onLock={handleLockReview}
+                    onDiscard={handleDiscardReview}
+                />
+            )}
+
+            {gameState === GameState.LIBRARY && profile && (
+                <Library 
+                    key={profile.id}
+                    profileId={profile.id}
+                    onOpen={handleOpenSaved} 
+                    onBack={() => setGameState(GameState.INGESTION)} 
+                />
+            )}
+
+            {gameState === GameState.SESSION_SUMMARY && activeSession && (
+                <Debrief 
+                    session={activeSession} 
+                    onReturn={handleReturnToCore} 
+                    onExit={() => setGameState(GameState.INGESTION)} 
+                />
+            )}
+
+            {gameState === GameState.SESSION_ACTIVE && activeSession && provider && (
                 <Session 
-                    data={sessionData} 
-                    context={inputContext} 
-                    apiKey={apiKey} 
+                    key={activeSession.id}
+                    data={activeSession.data} 
+                    context={activeSession.context} 
+                    provider={provider} 
+                    settings={activeSession.settings}
+                    initialProgress={activeSession.progress}
+                    generating={activeSession.id === streamingSessionId && ingestion?.preview
+                        ? { ready: ingestion.preview.questionsReady, total: ingestion.preview.questionsTotal }
+                        : undefined}
+                    onProgress={handleProgress}
+                    preferences={profile?.preferences}
+                    onPreferencesChange={handlePreferencesChange}
+                    onComplete={() => setGameState(GameState.SESSION_SUMMARY)}
                     onExit={() => setGameState(GameState.INGESTION)} 
                 />
             )}
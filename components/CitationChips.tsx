@@ -0,0 +1,35 @@
+import React from 'react';
+import { Link2 } from 'lucide-react';
+import { SourceCitation } from '../types';
+import { isVerified } from '../services/citations';
+
+interface CitationChipsProps {
+  citations?: SourceCitation[];
+  verifiable: (citation: SourceCitation) => boolean; // True for quotes from text artifacts, which are checked against the source
+  onSelect: (citation: SourceCitation) => void;
+}
+
+const CitationChips: React.FC<CitationChipsProps> = ({ citations, verifiable, onSelect }) => {
+  if (!citations || citations.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {citations.map((citation, idx) => {
+        const unverified = verifiable(citation) && !isVerified(citation);
+        return (
+          <button
+            key={idx}
+            onClick={() => onSelect(citation)}
+            title={citation.quote}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded border text-[10px] font-mono transition-colors ${unverified ? 'border-amber-500/30 text-amber-400 hover:bg-amber-900/20' : 'border-cyan-500/30 text-cyan-400 hover:bg-cyan-900/20'}`}
+          >
+            <Link2 className="w-3 h-3" />
+            [{idx + 1}]{citation.source ? ` ${citation.source}` : ''}{citation.page ? ` p.${citation.page}` : ''}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CitationChips;
@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { ConceptRelation, RelationType, StudyConcept } from '../types';
+import { layoutGraph } from '../services/conceptGraph';
+import { isDue } from '../services/scheduler';
+
+interface ConceptGraphProps {
+  concepts: StudyConcept[];
+  relations: ConceptRelation[];
+  activeConceptId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 320;
+const NODE_RADIUS = 10;
+
+const RELATION_STYLES: Record<RelationType, { color: string; dash?: string; label: string }> = {
+  [RelationType.PREREQUISITE_OF]: { color: '#a855f7', label: 'PREREQUISITE' },
+  [RelationType.PART_OF]: { color: '#22d3ee', dash: '2 3', label: 'PART OF' },
+  [RelationType.CONTRASTS_WITH]: { color: '#f97316', dash: '6 4', label: 'CONTRASTS' },
+  [RelationType.CAUSES]: { color: '#84cc16', label: 'CAUSES' }
+};
+
+const nodeColor = (concept: StudyConcept) => {
+  if (concept.mastered) return isDue(concept) ? '#f59e0b' : '#22d3ee';
+  return concept.review ? '#ef4444' : '#475569';
+};
+
+const truncate = (term: string) => term.length > 18 ? `${term.substring(0, 17)}…` : term;
+
+const ConceptGraph: React.FC<ConceptGraphProps> = ({ concepts, relations, activeConceptId, onSelect }) => {
+  // Layout depends only on graph structure, so mastery changes recolor without moving nodes
+  const ids = concepts.map(c => c.id).join('|');
+  const positions = useMemo(() => {
+    const layout = layoutGraph(concepts.map(c => c.id), relations, WIDTH, HEIGHT);
+    return new Map(layout.map(node => [node.id, node]));
+  }, [ids, relations]);
+
+  const neighbours = useMemo(() => {
+    const linked = new Set<string>();
+    relations.forEach(r => {
+      if (r.from === activeConceptId) linked.add(r.to);
+      if (r.to === activeConceptId) linked.add(r.from);
+    });
+    return linked;
+  }, [relations, activeConceptId]);
+
+  const edgeEnd = (relation: ConceptRelation) => {
+    const a = positions.get(relation.from)!;
+    const b = positions.get(relation.to)!;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+    // Stop the line at the node edge so the arrowhead stays visible
+    return { x1: a.x, y1: a.y, x2: b.x - (dx / dist) * (NODE_RADIUS + 2), y2: b.y - (dy / dist) * (NODE_RADIUS + 2) };
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-slate-950/40 rounded-lg border border-slate-800">
+        <defs>
+          {Object.entries(RELATION_STYLES).map(([type, style]) => (
+            <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={style.color} />
+            </marker>
+          ))}
+        </defs>
+
+        {relations.map((relation, i) => {
+          const style = RELATION_STYLES[relation.type];
+          const focused = relation.from === activeConceptId || relation.to === activeConceptId;
+          return (
+            <line
+              key={i}
+              {...edgeEnd(relation)}
+              stroke={style.color}
+              strokeWidth={focused ? 2 : 1}
+              strokeDasharray={style.dash}
+              strokeOpacity={!activeConceptId || focused ? 0.9 : 0.2}
+              // Contrast is symmetric; every other relation is directed
+              markerEnd={relation.type === RelationType.CONTRASTS_WITH ? undefined : `url(#arrow-${relation.type})`}
+            />
+          );
+        })}
+
+        {concepts.map(concept => {
+          const pos = positions.get(concept.id);
+          if (!pos) return null;
+          const active = concept.id === activeConceptId;
+          const dimmed = !!activeConceptId && !active && !neighbours.has(concept.id);
+          return (
+            <g
+              key={concept.id}
+              transform={`translate(${pos.x}, ${pos.y})`}
+              onClick={() => onSelect(concept.id)}
+              className="cursor-pointer"
+              opacity={dimmed ? 0.35 : 1}
+            >
+              <title>{concept.term}</title>
+              {active && <circle r={NODE_RADIUS + 5} fill="none" stroke="#fff" strokeWidth={1} strokeOpacity={0.6} className="animate-pulse" />}
+              <circle r={NODE_RADIUS} fill={nodeColor(concept)} fillOpacity={0.85} stroke={active ? '#fff' : '#0f172a'} strokeWidth={2} />
+              <text y={NODE_RADIUS + 12} textAnchor="middle" className="font-mono" fontSize={9} fill={active ? '#fff' : '#94a3b8'}>
+                {truncate(concept.term)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[9px] font-mono text-slate-500">
+        {Object.values(RelationType).map(type => (
+          <span key={type} className="flex items-center gap-1.5">
+            <svg width="16" height="4"><line x1="0" y1="2" x2="16" y2="2" stroke={RELATION_STYLES[type].color} strokeWidth={2} strokeDasharray={RELATION_STYLES[type].dash} /></svg>
+            {RELATION_STYLES[type].label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-cyan-400" /> SYNCHRONIZED</span>
+        <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-amber-500" /> DECAYING</span>
+        <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-red-500" /> UNSTABLE</span>
+        <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-full bg-slate-600" /> UNTESTED</span>
+      </div>
+      {relations.length === 0 && (
+        <p className="text-[10px] font-mono text-slate-600 text-center">NO RELATIONSHIPS MAPPED FOR THIS SESSION</p>
+      )}
+    </div>
+  );
+};
+
+export default ConceptGraph;
@@ -0,0 +1,143 @@
+import React, { useMemo } from 'react';
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, ReferenceLine } from 'recharts';
+import { CheckCircle2, XCircle, MinusCircle, Clock, Activity, Download, Brain, RotateCcw } from 'lucide-react';
+import { SavedSession } from '../types';
+import { STABILITY_THRESHOLD_WIN } from '../constants';
+import { buildDebrief, debriefToMarkdown, formatDuration } from '../services/debrief';
+import { downloadFile, toFileSlug } from '../services/download';
+
+interface DebriefProps {
+  session: SavedSession;
+  onReturn: () => void;
+  onExit: () => void;
+}
+
+const Debrief: React.FC<DebriefProps> = ({ session, onReturn, onExit }) => {
+  const debrief = useMemo(() => buildDebrief(session), [session]);
+  const passedCount = debrief.questions.filter(q => q.attempt?.passed).length;
+
+  const exportMarkdown = () => {
+    downloadFile(`${toFileSlug(debrief.title)}-debrief.md`, debriefToMarkdown(debrief), 'text/markdown');
+  };
+
+  const exportJson = () => {
+    downloadFile(`${toFileSlug(debrief.title)}-debrief.json`, JSON.stringify(debrief, null, 2), 'application/json');
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto animate-fade-in space-y-6">
+      {/* Header */}
+      <div className="glass-panel rounded-xl p-6 border-l-4 border-purple-500 flex flex-col md:flex-row justify-between gap-6">
+        <div>
+          <p className="text-[10px] font-mono text-purple-300 mb-2">SIMULATION DEBRIEF</p>
+          <h2 className="text-2xl lg:text-3xl font-display font-bold text-white mb-4">{debrief.title}</h2>
+          <div className="flex flex-wrap gap-4 text-xs font-mono text-slate-400">
+            <span className="flex items-center gap-2"><Activity className="w-4 h-4 text-cyan-400" /> STABILITY {debrief.finalStability.toFixed(1)}%</span>
+            <span className="flex items-center gap-2"><CheckCircle2 className="w-4 h-4 text-green-400" /> {passedCount}/{debrief.questions.length} PASSED</span>
+            <span className="flex items-center gap-2"><Clock className="w-4 h-4 text-purple-400" /> {formatDuration(debrief.timeSpentMs)}</span>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2 items-start">
+          <button onClick={exportMarkdown} className="flex items-center gap-2 px-4 py-2 rounded border border-slate-700 text-slate-300 hover:text-white font-tech text-sm">
+            <Download className="w-4 h-4" /> MARKDOWN
+          </button>
+          <button onClick={exportJson} className="flex items-center gap-2 px-4 py-2 rounded border border-slate-700 text-slate-300 hover:text-white font-tech text-sm">
+            <Download className="w-4 h-4" /> JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Per-question results */}
+        <div className="lg:col-span-2 glass-panel rounded-xl p-6 space-y-4">
+          <h3 className="text-xs font-tech text-slate-400 tracking-widest uppercase">Simulation Sequence</h3>
+          {debrief.questions.map(({ question, attempt }, idx) => (
+            <div key={question.id} className="p-4 rounded-lg border border-slate-800 bg-slate-900/40">
+              <div className="flex items-start gap-3">
+                {!attempt ? <MinusCircle className="w-4 h-4 mt-1 text-slate-500 shrink-0" />
+                  : attempt.passed ? <CheckCircle2 className="w-4 h-4 mt-1 text-green-400 shrink-0" />
+                  : <XCircle className="w-4 h-4 mt-1 text-red-400 shrink-0" />}
+                <div className="min-w-0">
+                  <p className="text-sm text-white font-tech">NODE_0{idx + 1}: {question.question}</p>
+                  {attempt && (
+                    <p className="text-[10px] font-mono text-slate-500 mt-1">
+                      {question.type}
+                      {attempt.score !== undefined && ` · SCORE ${attempt.score}/100`}
+                      {` · ${formatDuration(attempt.durationMs)}`}
+                    </p>
+                  )}
+                  {attempt && !attempt.passed && (
+                    <p className="text-xs text-slate-300 mt-3 border-l-2 border-red-500/40 pl-3">{question.explanation}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-6">
+          {/* Stability timeline */}
+          <div className="glass-panel rounded-xl p-4 h-56 flex flex-col">
+            <h3 className="text-xs font-tech text-slate-400 tracking-widest uppercase mb-2">Stability Timeline</h3>
+            <div className="flex-1">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={debrief.timeline}>
+                  <XAxis dataKey="time" hide />
+                  <YAxis domain={[0, 100]} hide />
+                  <Tooltip contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155' }} itemStyle={{ color: '#e2e8f0' }} />
+                  <ReferenceLine y={STABILITY_THRESHOLD_WIN} stroke="#22d3ee" strokeDasharray="4 4" />
+                  <Area type="monotone" dataKey="stability" stroke="#a855f7" strokeWidth={2} fill="rgba(168, 85, 247, 0.1)" />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Per-concept outcomes */}
+          <div className="glass-panel rounded-xl p-4">
+            <h3 className="text-xs font-tech text-slate-400 tracking-widest uppercase mb-3">Node Status</h3>
+            <div className="space-y-2">
+              {debrief.concepts.map(({ concept, lastScore, missedQuestions }) => (
+                <div key={concept.id} className="flex items-center justify-between text-xs font-mono">
+                  <span className={concept.mastered ? 'text-cyan-400' : 'text-slate-400'}>{concept.term}</span>
+                  <span className="text-slate-500">
+                    {lastScore !== undefined ? `${lastScore}` : '--'}
+                    {missedQuestions > 0 && <span className="text-red-400"> · {missedQuestions} MISS</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Recommendations */}
+          {debrief.recommended.length > 0 && (
+            <div className="glass-panel rounded-xl p-4 border-l-4 border-amber-500">
+              <h3 className="flex items-center gap-2 text-xs font-tech text-amber-400 tracking-widest uppercase mb-3">
+                <Brain className="w-4 h-4" /> Revisit
+              </h3>
+              <ul className="space-y-1 text-xs text-slate-300">
+                {debrief.recommended.map(concept => <li key={concept.id}>{concept.term}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 justify-center pb-6">
+        <button
+          onClick={onReturn}
+          className="flex items-center justify-center gap-2 px-8 py-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-tech tracking-wider transition-all"
+        >
+          <RotateCcw className="w-4 h-4" /> RETURN TO CORE
+        </button>
+        <button
+          onClick={onExit}
+          className="px-8 py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-lg font-tech tracking-wider transition-all"
+        >
+          EXIT SYSTEM
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Debrief;
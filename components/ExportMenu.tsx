@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { Download, Layers, FileText, Table, Package, Fingerprint } from 'lucide-react';
+import { ExportSource, toAnkiDeck, toQuestionsCsv, toStudyGuideMarkdown } from '../services/exporters';
+import { downloadFile, toFileSlug } from '../services/download';
+import { BundleSource, downloadBundle } from '../services/bundle';
+
+interface ExportMenuProps {
+  source: ExportSource;
+  bundle?: BundleSource;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ source, bundle }) => {
+  const [open, setOpen] = useState(false);
+  const slug = toFileSlug(source.title);
+
+  const formats = [
+    { label: 'ANKI DECK', icon: Layers, run: () => downloadFile(`${slug}-anki.txt`, toAnkiDeck(source), 'text/tab-separated-values') },
+    { label: 'STUDY GUIDE', icon: FileText, run: () => downloadFile(`${slug}-guide.md`, toStudyGuideMarkdown(source), 'text/markdown') },
+    { label: 'QUESTIONS CSV', icon: Table, run: () => downloadFile(`${slug}-questions.csv`, toQuestionsCsv(source.questions), 'text/csv') },
+    ...(bundle ? [
+      { label: 'SESSION BUNDLE', icon: Package, run: () => downloadBundle(bundle, true) },
+      { label: 'BUNDLE (NO SOURCE)', icon: Fingerprint, run: () => downloadBundle(bundle, false) }
+    ] : [])
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 text-xs font-mono text-slate-500 hover:text-cyan-400 transition-colors"
+      >
+        <Download className="w-4 h-4" /> EXPORT
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-48 glass-panel rounded-lg border border-slate-700 p-1 animate-in fade-in duration-150">
+          {formats.map(({ label, icon: Icon, run }) => (
+            <button
+              key={label}
+              onClick={() => { run(); setOpen(false); }}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded text-left text-xs font-mono text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+            >
+              <Icon className="w-3.5 h-3.5 text-cyan-400" /> {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, Minus, Plus } from 'lucide-react';
+import { AudienceLevel, GenerationSettings, QuestionType } from '../types';
+import { AUDIENCE_LABELS, GENERATION_LIMITS, QUESTION_TYPE_LABELS } from '../constants';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+}
+
+const LANGUAGE_SUGGESTIONS = ['English', 'Spanish', 'French', 'German', 'Portuguese', 'Chinese', 'Japanese', 'Hindi', 'Arabic'];
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.max(min, Math.min(max, value));
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const totalQuestions = Object.values<number>(settings.questionMix).reduce((sum, n) => sum + n, 0);
+
+  const setQuestionCount = (type: QuestionType, count: number) => {
+    const next = clamp(count, GENERATION_LIMITS.questionsPerType);
+    // Never allow an empty simulation
+    if (totalQuestions - settings.questionMix[type] + next < 1) return;
+    onChange({ ...settings, questionMix: { ...settings.questionMix, [type]: next } });
+  };
+
+  return (
+    <div className="mt-8 glass-panel rounded-2xl overflow-hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-6 py-4 text-left"
+      >
+        <span className="flex items-center gap-3 font-tech text-slate-300 tracking-wider">
+          <SlidersHorizontal className="w-4 h-4 text-cyan-400" />
+          CALIBRATION
+          <span className="text-xs font-mono text-slate-500">
+            {settings.conceptCount} NODES · {totalQuestions} ITEMS · {AUDIENCE_LABELS[settings.audience].toUpperCase()} · LVL {settings.difficulty} · {settings.language.toUpperCase()}
+          </span>
+        </span>
+        <ChevronDown className={`w-4 h-4 text-slate-500 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 px-6 pb-6 border-t border-slate-800 pt-6">
+          <div className="space-y-6">
+            <label className="block">
+              <span className="text-xs font-tech text-slate-400 uppercase tracking-widest">Concept Nodes: {settings.conceptCount}</span>
+              <input
+                type="range"
+                min={GENERATION_LIMITS.conceptCount.min}
+                max={GENERATION_LIMITS.conceptCount.max}
+                value={settings.conceptCount}
+                onChange={(e) => onChange({ ...settings, conceptCount: Number(e.target.value) })}
+                className="w-full mt-2 accent-cyan-500"
+              />
+            </label>
+
+            <label className="block">
+              <span className="text-xs font-tech text-slate-400 uppercase tracking-widest">Difficulty Target: {settings.difficulty}/10</span>
+              <input
+                type="range"
+                min={GENERATION_LIMITS.difficulty.min}
+                max={GENERATION_LIMITS.difficulty.max}
+                value={settings.difficulty}
+                onChange={(e) => onChange({ ...settings, difficulty: Number(e.target.value) })}
+                className="w-full mt-2 accent-purple-500"
+              />
+            </label>
+
+            <div>
+              <span className="text-xs font-tech text-slate-400 uppercase tracking-widest">Audience</span>
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                {(Object.keys(AUDIENCE_LABELS) as AudienceLevel[]).map(level => (
+                  <button
+                    key={level}
+                    onClick={() => onChange({ ...settings, audience: level })}
+                    className={`px-3 py-2 rounded border text-xs font-tech transition-all ${settings.audience === level ? 'bg-cyan-950/50 border-cyan-500 text-cyan-300' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                  >
+                    {AUDIENCE_LABELS[level]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <div>
+              <span className="text-xs font-tech text-slate-400 uppercase tracking-widest">Simulation Mix</span>
+              <div className="space-y-2 mt-2">
+                {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                  <div key={type} className="flex items-center justify-between p-2 rounded bg-slate-900/50 border border-slate-800">
+                    <span className="text-sm font-tech text-slate-300">{QUESTION_TYPE_LABELS[type]}</span>
+                    <div className="flex items-center gap-3">
+                      <button onClick={() => setQuestionCount(type, settings.questionMix[type] - 1)} className="p-1 rounded text-slate-400 hover:text-white" title="Fewer">
+                        <Minus className="w-3 h-3" />
+                      </button>
+                      <span className="w-4 text-center font-mono text-white">{settings.questionMix[type]}</span>
+                      <button onClick={() => setQuestionCount(type, settings.questionMix[type] + 1)} className="p-1 rounded text-slate-400 hover:text-white" title="More">
+                        <Plus className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <label className="block">
+              <span className="text-xs font-tech text-slate-400 uppercase tracking-widest">Output Language</span>
+              <input
+                list="nexus-languages"
+                value={settings.language}
+                onChange={(e) => onChange({ ...settings, language: e.target.value })}
+                onBlur={() => !settings.language.trim() && onChange({ ...settings, language: 'English' })}
+                className="w-full mt-2 bg-slate-950/50 border border-slate-700 rounded px-3 py-2 text-sm font-mono text-slate-300 focus:border-cyan-500 focus:outline-none"
+              />
+              <datalist id="nexus-languages">
+                {LANGUAGE_SUGGESTIONS.map(lang => <option key={lang} value={lang} />)}
+              </datalist>
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettingsPanel;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { AlertTriangle, CircleSlash } from 'lucide-react';
+import { ChallengeResult, SourceCitation } from '../types';
+import { PASS_THRESHOLD } from '../constants';
+import CitationChips from './CitationChips';
+
+interface GradeBreakdownProps {
+  result: ChallengeResult;
+  verifiable: (citation: SourceCitation) => boolean;
+  onCitation: (citation: SourceCitation) => void;
+}
+
+const GradeBreakdown: React.FC<GradeBreakdownProps> = ({ result, verifiable, onCitation }) => (
+  <div className="space-y-3 text-xs font-mono">
+    <div className="space-y-2">
+      {result.criteria.map(criterion => (
+        <div key={criterion.id} className="p-2 rounded bg-slate-900/50 border border-slate-800">
+          <div className="flex items-center justify-between gap-4 mb-1">
+            <span className="text-slate-300 font-body">{criterion.description}</span>
+            <span className="text-slate-500 shrink-0">×{criterion.weight}</span>
+          </div>
+          <div className="h-1 w-full bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${criterion.score >= PASS_THRESHOLD ? 'bg-green-500' : criterion.score >= 40 ? 'bg-yellow-500' : 'bg-red-500'}`}
+              style={{ width: `${criterion.score}%` }}
+            />
+          </div>
+          {criterion.evidence && <p className="mt-1 text-[10px] text-slate-500 italic">{criterion.evidence}</p>}
+        </div>
+      ))}
+    </div>
+
+    {result.missedKeyPoints.length > 0 && (
+      <div className="flex items-start gap-2 text-red-300">
+        <CircleSlash className="w-3 h-3 mt-0.5 shrink-0" />
+        <span>MISSED: {result.missedKeyPoints.join('; ')}</span>
+      </div>
+    )}
+    {result.misconceptionsDetected.length > 0 && (
+      <div className="flex items-start gap-2 text-amber-300">
+        <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+        <span>MISCONCEPTIONS: {result.misconceptionsDetected.join('; ')}</span>
+      </div>
+    )}
+    {result.evidence.length > 0 && (
+      <div>
+        <span className="text-[10px] text-slate-500">SOURCE EVIDENCE</span>
+        <CitationChips citations={result.evidence} verifiable={verifiable} onSelect={onCitation} />
+      </div>
+    )}
+  </div>
+);
+
+export default GradeBreakdown;
@@ -1,15 +1,47 @@
-import React, { useState, ChangeEvent } from 'react';
-import { FileText, Upload, BrainCircuit, File as FileIcon, X } from 'lucide-react';
-import { InputContext } from '../types';
+import React, { useMemo, useState, ChangeEvent } from 'react';
+import { FileText, Upload, BrainCircuit, File as FileIcon, X, PackageOpen, AlertTriangle, RefreshCw, Link, Loader2, ClipboardCheck } from 'lucide-react';
+import { InputContext, GenerationSettings, LearnerPreferences } from '../types';
+import { chunkText, needsChunking } from '../services/chunker';
+import { BUNDLE_EXTENSION, BundleError, SessionBundle, matchesSource, parseBundle } from '../services/bundle';
+import { GenerationOptions } from '../services/geminiService';
+import { ExtractionError, acceptedFileTypes, extractFile, fetchFile, selectPages, supportedFormats } from '../services/extractors';
+import { combineDocuments } from '../services/documents';
+import GenerationSettingsPanel from './GenerationSettingsPanel';
+import PdfRangePicker, { PageRange } from './PdfRangePicker';
+
+// Upper bound on artifacts staged into one session; every one rides along with each prompt
+const MAX_ARTIFACTS = 8;
+
+// PDFs with a text layer keep their File for page previews and a page range to study
+interface StagedArtifact {
+  context: InputContext;
+  file?: File;
+  range?: PageRange;
+}
+
+const selectedContext = (artifact: StagedArtifact) =>
+  artifact.range ? selectPages(artifact.context, artifact.range.from, artifact.range.to) : artifact.context;
 
 interface IngestProps {
-  onStart: (input: InputContext) => void;
+  onStart: (input: InputContext, settings: GenerationSettings, options: GenerationOptions, review: boolean) => void;
+  onImport: (bundle: SessionBundle, context: InputContext) => void;
+  // Calibration and instructor mode are remembered per learner
+  preferences: LearnerPreferences;
+  onPreferencesChange: (changes: Partial<LearnerPreferences>) => void;
 }
 
-const Ingest: React.FC<IngestProps> = ({ onStart }) => {
+const Ingest: React.FC<IngestProps> = ({ onStart, onImport, preferences, onPreferencesChange }) => {
   const [text, setText] = useState('');
   const [dragActive, setDragActive] = useState(false);
-  const [loadedFile, setLoadedFile] = useState<{ name: string, type: string, data: string } | null>(null);
+  // Uploaded and fetched artifacts; pasted text joins them as one more document
+  const [staged, setStaged] = useState<StagedArtifact[]>([]);
+  const [bundle, setBundle] = useState<SessionBundle | null>(null);
+  const [bundleError, setBundleError] = useState<string | null>(null);
+  // Identical artifact + calibration is answered from the response cache unless this is set
+  const [regenerate, setRegenerate] = useState(false);
+  const [url, setUrl] = useState('');
+  const [extracting, setExtracting] = useState(0);
+  const [sourceError, setSourceError] = useState<string | null>(null);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -26,63 +58,114 @@ const Ingest: React.FC<IngestProps> = ({ onStart }) => {
     e.stopPropagation();
     setDragActive(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-        handleFile(e.dataTransfer.files[0]);
-    }
+    handleFiles(e.dataTransfer.files);
   };
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    handleFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleBundleFile = (file: File) => {
+    setBundleError(null);
+    file.text().then(json => {
+        try {
+            setBundle(parseBundle(json));
+        } catch (e) {
+            setBundle(null);
+            setBundleError(e instanceof BundleError ? e.message : "Could not read session bundle.");
+        }
+    });
+  };
+
+  const handleBundleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) handleBundleFile(e.target.files[0]);
+    e.target.value = '';
+  };
+
+  // Artifacts already staged or still being extracted count against the limit
+  const remainingSlots = () => MAX_ARTIFACTS - staged.length - extracting;
+  const limitMessage = `A session can combine at most ${MAX_ARTIFACTS} artifacts.`;
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    const bundleFile = files.find(file => file.name.endsWith(BUNDLE_EXTENSION));
+    if (bundleFile) handleBundleFile(bundleFile);
+
+    const artifacts = files.filter(file => file !== bundleFile);
+    setSourceError(artifacts.length > remainingSlots() ? limitMessage : null);
+    artifacts.slice(0, Math.max(0, remainingSlots())).forEach(file => loadSource(file));
+  };
+
+  const handleFetchUrl = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    if (remainingSlots() <= 0) {
+        setSourceError(limitMessage);
+        return;
     }
+    setSourceError(null);
+    loadSource(fetchFile(url), url.trim()).then(ok => { if (ok) setUrl(''); });
   };
 
-  const handleFile = (file: File) => {
-    // Reset text if file is loaded
-    setText('');
-
-    if (file.type === "text/plain" || file.name.endsWith('.md') || file.name.endsWith('.txt')) {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            if (e.target?.result) setText(e.target.result as string);
-        };
-        reader.readAsText(file);
-        setLoadedFile(null);
-    } else if (file.type === "application/pdf") {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            if (e.target?.result) {
-                const base64String = (e.target.result as string).split(',')[1];
-                setLoadedFile({
-                    name: file.name,
-                    type: file.type,
-                    data: base64String
-                });
-            }
-        };
-        reader.readAsDataURL(file);
-    } else {
-        alert("Currently supported formats: PDF, TXT, MD");
+  // Fetched artifacts are named after their URL rather than the last path segment
+  const loadSource = async (download: File | Promise<File>, fileName?: string): Promise<boolean> => {
+    setExtracting(n => n + 1);
+    try {
+        const file = await download;
+        const extracted = await extractFile(file);
+        const context = fileName ? { ...extracted, fileName } : extracted;
+        const pageCount = context.pages?.length;
+        setStaged(prev => [...prev, pageCount ? { context, file, range: { from: 1, to: pageCount } } : { context }]);
+        return true;
+    } catch (e) {
+        console.error(e);
+        setSourceError(e instanceof ExtractionError ? e.message : "The artifact could not be loaded.");
+        return false;
+    } finally {
+        setExtracting(n => n - 1);
     }
   };
 
+  const removeStaged = (index: number) => setStaged(prev => prev.filter((_, i) => i !== index));
+  const setRange = (index: number, range: PageRange) =>
+    setStaged(prev => prev.map((artifact, i) => i === index ? { ...artifact, range } : artifact));
+
+  // One artifact is sent as it is; several are combined into a multi-document set
+  const input = useMemo((): InputContext | null => {
+    const pasted: InputContext[] = text.length > 50 ? [{ type: 'text', content: text }] : [];
+    const all = [...staged.map(selectedContext), ...pasted];
+    return all.length > 0 ? combineDocuments(all) : null;
+  }, [staged, text]);
+  const currentInput = () => input;
+
+  const settings = preferences.generation;
+  // Instructor mode: the generated session is reviewed and locked before anyone studies it
+  const review = preferences.instructorReview;
+
   const handleStart = () => {
-    if (loadedFile) {
-        onStart({
-            type: 'file',
-            content: loadedFile.data,
-            mimeType: loadedFile.type,
-            fileName: loadedFile.name
-        });
-    } else if (text.length > 50) {
-        onStart({
-            type: 'text',
-            content: text
-        });
+    if (input) onStart(input, settings, { regenerate }, review);
+  };
+
+  // Hash-only bundles need the original artifact; verify it before skipping generation
+  const handleImport = async () => {
+    if (!bundle) return;
+    if (bundle.context) {
+        onImport(bundle, bundle.context);
+        return;
+    }
+    const input = currentInput();
+    if (!input) return;
+    if (await matchesSource(bundle, input)) {
+        onImport(bundle, input);
+    } else {
+        setBundleError("The attached artifact does not match the one this session was generated from.");
     }
   };
 
-  const isReady = (text.length > 50) || !!loadedFile;
+  const isReady = !!input;
+  const artifactCount = input?.documents?.length ?? (input ? 1 : 0);
+  const canImport = !!bundle && (!!bundle.context || isReady);
 
   return (
     <div className="w-full max-w-4xl mx-auto p-6 animate-fade-in">
@@ -95,6 +178,46 @@ const Ingest: React.FC<IngestProps> = ({ onStart }) => {
         </p>
       </div>
 
+      {(bundle || bundleError) && (
+        <div className={`mb-8 p-4 rounded-xl border flex flex-col sm:flex-row sm:items-center gap-4 animate-in fade-in duration-300 ${bundleError ? 'border-red-500/40 bg-red-900/10' : 'border-purple-500/40 bg-purple-900/10'}`}>
+            {bundleError && !bundle ? (
+                <p className="flex-1 text-sm text-red-300 flex items-center gap-2"><AlertTriangle className="w-4 h-4 shrink-0" /> {bundleError}</p>
+            ) : bundle && (
+                <div className="flex-1 min-w-0">
+                    <p className="font-display text-white truncate">{bundle.name}</p>
+                    <p className="text-xs font-mono text-slate-400">
+                        {bundle.data.concepts.length} CONCEPTS · {bundle.data.questions.length} QUESTIONS
+                        {bundle.deepDives && ` · ${Object.keys(bundle.deepDives).length} DEEP DIVES`}
+                    </p>
+                    {!bundle.context && (
+                        <p className="text-xs font-mono text-amber-400 mt-1">
+                            SOURCE NOT BUNDLED. ATTACH {bundle.source.fileName ? `"${bundle.source.fileName}"` : 'THE ORIGINAL TEXT'} BELOW TO VERIFY IT.
+                        </p>
+                    )}
+                    {bundleError && <p className="text-xs text-red-300 mt-1">{bundleError}</p>}
+                </div>
+            )}
+            <div className="flex gap-2 shrink-0">
+                {bundle && (
+                    <button
+                        onClick={handleImport}
+                        disabled={!canImport}
+                        className="px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded font-tech text-sm transition-all"
+                    >
+                        IMPORT SESSION
+                    </button>
+                )}
+                <button
+                    onClick={() => { setBundle(null); setBundleError(null); }}
+                    className="p-2 rounded border border-slate-700 text-slate-400 hover:text-white"
+                    title="Dismiss"
+                >
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         {/* Left: Drag & Drop */}
         <div 
@@ -110,71 +233,150 @@ const Ingest: React.FC<IngestProps> = ({ onStart }) => {
         >
           <div className="absolute inset-0 bg-grid-slate-800/[0.1] rounded-2xl pointer-events-none" />
           <Upload className={`w-16 h-16 mb-6 ${dragActive ? 'text-cyan-400' : 'text-slate-500'}`} />
-          <p className="text-lg font-tech text-slate-300 mb-2">Drag Artifact Here</p>
-          <p className="text-sm text-slate-500 mb-6">PDF, TXT, MD supported.</p>
+          <p className="text-lg font-tech text-slate-300 mb-2">Drag Artifacts Here</p>
+          <p className="text-sm text-slate-500 mb-6 text-center">{supportedFormats()} supported. Stage several to study them together.</p>
           
           <label className="cursor-pointer px-6 py-3 bg-cyan-900/30 border border-cyan-500/30 rounded-lg text-cyan-400 font-tech hover:bg-cyan-500 hover:text-white transition-all group z-10">
             <span className="flex items-center gap-2">
-              <FileText className="w-4 h-4" />
-              SELECT FILE
+              {extracting > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              {extracting > 0 ? 'EXTRACTING...' : 'SELECT FILES'}
             </span>
             <input 
               type="file" 
               className="hidden" 
               onChange={handleFileChange}
-              accept=".pdf,.txt,.md"
+              accept={acceptedFileTypes()}
+              multiple
             />
           </label>
+
+          <form onSubmit={handleFetchUrl} className="mt-4 w-full max-w-xs flex gap-2 z-10">
+            <div className="flex-1 flex items-center gap-2 bg-slate-950/60 border border-slate-700 rounded-lg px-3 focus-within:border-cyan-500/50">
+              <Link className="w-3.5 h-3.5 text-slate-500 shrink-0" />
+              <input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="Or paste a URL..."
+                className="flex-1 min-w-0 bg-transparent py-2 text-xs font-mono text-slate-300 focus:outline-none"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!url.trim()}
+              className="px-3 py-2 rounded-lg border border-cyan-500/30 text-cyan-400 font-tech text-xs hover:bg-cyan-500 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+            >
+              FETCH
+            </button>
+          </form>
+
+          {sourceError && (
+            <p className="mt-3 max-w-xs text-xs text-red-300 flex items-start gap-2 z-10">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {sourceError}
+            </p>
+          )}
+
+          <label className="mt-4 cursor-pointer text-xs font-mono text-slate-500 hover:text-purple-400 transition-colors z-10 flex items-center gap-2">
+            <PackageOpen className="w-4 h-4" />
+            IMPORT SESSION ({BUNDLE_EXTENSION})
+            <input type="file" className="hidden" onChange={handleBundleChange} accept=".json" />
+          </label>
         </div>
 
-        {/* Right: Content View or File View */}
+        {/* Right: Staged artifacts and pasted text */}
         <div className="h-96 flex flex-col glass-panel rounded-2xl p-1 relative">
-            {loadedFile ? (
-                <div className="flex-1 flex flex-col items-center justify-center p-8 animate-in fade-in zoom-in duration-300">
-                    <div className="w-20 h-20 bg-red-900/20 rounded-xl flex items-center justify-center mb-4 border border-red-500/30 relative overflow-hidden group">
-                        <div className="absolute inset-0 bg-red-500/10 group-hover:bg-red-500/20 transition-colors" />
-                        <FileIcon className="w-10 h-10 text-red-400" />
-                    </div>
-                    <h3 className="font-display text-xl text-white mb-1 truncate max-w-xs">{loadedFile.name}</h3>
-                    <span className="text-xs font-mono text-red-400 bg-red-900/30 px-2 py-1 rounded border border-red-500/30 uppercase">
-                        {loadedFile.type.split('/')[1]} DETECTED
-                    </span>
-                    <button 
-                        onClick={() => setLoadedFile(null)}
-                        className="mt-6 text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1"
-                    >
-                        <X className="w-3 h-3" /> REMOVE ARTIFACT
-                    </button>
+            {staged.length > 0 && (
+                <div className="max-h-48 shrink-0 overflow-y-auto custom-scrollbar p-3 space-y-2 border-b border-slate-800">
+                    {staged.map((artifact, index) => {
+                        const context = selectedContext(artifact);
+                        return (
+                        <div key={index} className="flex items-start gap-3 p-2 rounded-lg bg-slate-900/60 border border-slate-800 animate-in fade-in duration-300">
+                            {context.type === 'file' && context.mimeType?.startsWith('image/') ? (
+                                <img
+                                    src={`data:${context.mimeType};base64,${context.content}`}
+                                    alt={context.fileName}
+                                    className="w-10 h-10 rounded border border-red-500/30 object-cover shrink-0"
+                                />
+                            ) : (
+                                <div className={`w-10 h-10 rounded flex items-center justify-center shrink-0 border ${context.type === 'file' || artifact.range ? 'bg-red-900/20 border-red-500/30' : 'bg-cyan-900/20 border-cyan-500/30'}`}>
+                                    {context.type === 'file' || artifact.range ? <FileIcon className="w-5 h-5 text-red-400" /> : <FileText className="w-5 h-5 text-cyan-400" />}
+                                </div>
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm text-white truncate" title={artifact.context.fileName}>{artifact.context.fileName ?? 'Untitled artifact'}</p>
+                                <p className="text-[10px] font-mono text-slate-500 uppercase">
+                                    {artifactCount > 1 && `S${index + 1} · `}
+                                    {context.type === 'file' ? `${context.mimeType?.split('/')[1]} detected` : `${context.content.length} characters`}
+                                    {artifact.range && ' · text extracted'}
+                                </p>
+                                {artifact.file && artifact.range && (
+                                    <PdfRangePicker
+                                        file={artifact.file}
+                                        pageCount={artifact.context.pages!.length}
+                                        range={artifact.range}
+                                        onChange={range => setRange(index, range)}
+                                    />
+                                )}
+                            </div>
+                            <button
+                                onClick={() => removeStaged(index)}
+                                className="p-1.5 text-slate-500 hover:text-slate-300"
+                                title="Remove artifact"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                        );
+                    })}
                 </div>
-            ) : (
-                <textarea
-                    value={text}
-                    onChange={(e) => setText(e.target.value)}
-                    placeholder="Or paste raw academic text here..."
-                    className="flex-1 bg-transparent p-6 text-slate-300 font-mono text-sm resize-none focus:outline-none custom-scrollbar"
-                />
             )}
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={staged.length > 0 ? "Optionally paste further text to study alongside..." : "Or paste raw academic text here..."}
+                className="flex-1 min-h-0 bg-transparent p-6 text-slate-300 font-mono text-sm resize-none focus:outline-none custom-scrollbar"
+            />
             
             <div className="h-16 border-t border-slate-800 flex items-center justify-between px-6 bg-slate-950/50 rounded-b-xl">
                 <span className="text-xs font-tech text-slate-500">
-                    {loadedFile ? 'BINARY DATA READY' : `${text.length} CHARACTERS`}
+                    {artifactCount > 1 && `${artifactCount} ARTIFACTS · `}
+                    {input?.type === 'file' ? 'BINARY DATA READY' : `${input?.content.length ?? text.length} CHARACTERS`}
+                    {input && needsChunking(input) && ` · ${chunkText(input.content).length} SEGMENTS`}
                 </span>
-                <button
-                    onClick={handleStart}
-                    disabled={!isReady}
-                    className={`
-                        flex items-center gap-2 px-6 py-2 rounded-lg font-tech font-bold tracking-wider transition-all
-                        ${isReady 
-                            ? 'bg-gradient-to-r from-cyan-600 to-blue-600 text-white shadow-lg shadow-cyan-900/50 hover:scale-105' 
-                            : 'bg-slate-800 text-slate-600 cursor-not-allowed'}
-                    `}
-                >
-                    <BrainCircuit className="w-5 h-5" />
-                    INITIALIZE
-                </button>
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => onPreferencesChange({ instructorReview: !review })}
+                        title="Review, edit and lock the generated session before it opens"
+                        className={`flex items-center gap-2 text-xs font-mono transition-colors ${review ? 'text-amber-400' : 'text-slate-600 hover:text-slate-400'}`}
+                    >
+                        <ClipboardCheck className="w-3.5 h-3.5" /> {review ? 'INSTRUCTOR REVIEW' : 'DIRECT START'}
+                    </button>
+                    <button
+                        onClick={() => setRegenerate(r => !r)}
+                        title="Ignore any cached result for this artifact and calibration"
+                        className={`flex items-center gap-2 text-xs font-mono transition-colors ${regenerate ? 'text-purple-400' : 'text-slate-600 hover:text-slate-400'}`}
+                    >
+                        <RefreshCw className="w-3.5 h-3.5" /> {regenerate ? 'FRESH RUN' : 'USE CACHE'}
+                    </button>
+                    <button
+                        onClick={handleStart}
+                        disabled={!isReady}
+                        className={`
+                            flex items-center gap-2 px-6 py-2 rounded-lg font-tech font-bold tracking-wider transition-all
+                            ${isReady 
+                                ? 'bg-gradient-to-r from-cyan-600 to-blue-600 text-white shadow-lg shadow-cyan-900/50 hover:scale-105' 
+                                : 'bg-slate-800 text-slate-600 cursor-not-allowed'}
+                        `}
+                    >
+                        <BrainCircuit className="w-5 h-5" />
+                        INITIALIZE
+                    </button>
+                </div>
             </div>
         </div>
       </div>
+
+      <GenerationSettingsPanel settings={settings} onChange={generation => onPreferencesChange({ generation })} />
     </div>
   );
 };
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { Archive, Copy, Trash2, Pencil, PlayCircle, ArrowLeft, Check, X, Loader2, Clock, Share2, Eraser, ShieldCheck } from 'lucide-react';
+import { SavedSession } from '../types';
+import { listSessions, renameSession, duplicateSession, deleteSession } from '../services/sessionStore';
+import { collectDueReviews } from '../services/scheduler';
+import { downloadBundle } from '../services/bundle';
+import { clearResponses, countResponses } from '../services/responseCache';
+
+interface LibraryProps {
+  profileId: string; // Only this learner's sessions are listed
+  onOpen: (session: SavedSession, conceptId?: string) => void;
+  onBack: () => void;
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+// Adaptive runs grow the question pool beyond what was generated
+const questionCount = (session: SavedSession) => (session.progress?.questions ?? session.data.questions).length;
+
+const Library: React.FC<LibraryProps> = ({ profileId, onOpen, onBack }) => {
+  const [sessions, setSessions] = useState<SavedSession[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [cachedResponses, setCachedResponses] = useState(0);
+
+  const refresh = async () => {
+    try {
+        setSessions(await listSessions(profileId));
+    } catch (e) {
+        console.error(e);
+        setError("Local archive unavailable. Storage may be disabled in this browser.");
+        setSessions([]);
+    }
+    countResponses().then(setCachedResponses).catch(() => setCachedResponses(0));
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (session: SavedSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  // Storage failures are reported in the archive instead of failing silently
+  const runStorageAction = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+        await action();
+    } catch (e) {
+        console.error(e);
+        setError(failure);
+    }
+    refresh();
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = draftName.trim();
+    setEditingId(null);
+    if (name) await runStorageAction(() => renameSession(editingId, name), "Could not rename the session.");
+  };
+
+  const handleDuplicate = (id: string) =>
+    runStorageAction(() => duplicateSession(id), "Could not duplicate the session.");
+
+  const handleDelete = async (session: SavedSession) => {
+    if (!confirm(`Purge "${session.name}" from the archive?`)) return;
+    await runStorageAction(() => deleteSession(session.id), "Could not purge the session.");
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm(`Discard ${cachedResponses} cached model response${cachedResponses === 1 ? '' : 's'}? Saved sessions are kept; regenerating content will call the model again.`)) return;
+    await runStorageAction(clearResponses, "Could not clear the response cache.");
+  };
+
+  const dueReviews = sessions ? collectDueReviews(sessions) : [];
+
+  const openReview = (sessionId: string, conceptId: string) => {
+    const session = sessions?.find(s => s.id === sessionId);
+    if (session) onOpen(session, conceptId);
+  };
+
+  const progressLabel = (session: SavedSession) => {
+    const total = session.data.concepts.length;
+    const synced = (session.progress?.concepts ?? session.data.concepts).filter(c => c.mastered).length;
+    return `${synced}/${total} NODES SYNCED`;
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-6 animate-fade-in">
+      <div className="flex items-center justify-between mb-10">
+        <div>
+          <h2 className="text-4xl font-display font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-600">
+            SESSION ARCHIVE
+          </h2>
+          <p className="text-slate-400 font-tech tracking-wider uppercase mt-2">Resume a stored synchronization</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {cachedResponses > 0 && (
+            <button
+              onClick={handleClearCache}
+              title="Cached model responses make re-opening the same artifact instant"
+              className="flex items-center gap-2 text-slate-500 hover:text-red-400 font-mono text-xs px-3 py-2 bg-slate-800/50 rounded"
+            >
+              <Eraser className="w-4 h-4" /> CLEAR CACHE ({cachedResponses})
+            </button>
+          )}
+          <button
+            onClick={onBack}
+            className="flex items-center gap-2 text-slate-400 hover:text-white font-mono text-xs px-3 py-2 bg-slate-800/50 rounded"
+          >
+            <ArrowLeft className="w-4 h-4" /> NEW ARTIFACT
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-900/20 border border-red-500/50 rounded-lg text-red-200 text-sm text-center">{error}</div>
+      )}
+
+      {dueReviews.length > 0 && (
+        <div className="glass-panel rounded-xl p-4 mb-6 border-l-4 border-amber-500">
+          <h3 className="flex items-center gap-2 text-xs font-tech text-amber-400 mb-3 tracking-widest uppercase">
+            <Clock className="w-4 h-4" /> Due Today: {dueReviews.length} node{dueReviews.length === 1 ? '' : 's'} decaying
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {dueReviews.map(review => (
+              <button
+                key={`${review.sessionId}:${review.concept.id}`}
+                onClick={() => openReview(review.sessionId, review.concept.id)}
+                className="px-3 py-1 rounded border border-amber-500/30 bg-amber-900/10 text-xs font-mono text-amber-200 hover:bg-amber-900/30 transition-colors"
+                title={review.sessionName}
+              >
+                {review.concept.term}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {sessions === null ? (
+        <div className="flex justify-center py-20 text-cyan-400">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="glass-panel rounded-xl p-12 text-center text-slate-500">
+          <Archive className="w-12 h-12 mx-auto mb-4 text-slate-700" />
+          <p className="font-mono text-sm">No stored sessions. Process an artifact to create one.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sessions.map(session => (
+            <div key={session.id} className="glass-panel rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="min-w-0 flex-1">
+                {editingId === session.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 bg-slate-950/50 border border-slate-700 rounded px-3 py-1 text-sm font-display text-white focus:border-cyan-500 focus:outline-none"
+                    />
+                    <button onClick={commitRename} className="p-1 text-green-400 hover:text-green-300" title="Save name">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:text-slate-300" title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <h3 className="font-display text-white truncate">{session.name}</h3>
+                )}
+                <div className="flex flex-wrap gap-3 mt-2 text-[10px] font-mono text-slate-500">
+                  <span>{progressLabel(session)}</span>
+                  <span>Q {Math.min((session.progress?.currentQIndex ?? 0) + 1, questionCount(session))}/{questionCount(session)}</span>
+                  <span>UPDATED {formatDate(session.updatedAt)}</span>
+                  {session.data.vettedAt && <span className="flex items-center gap-1 text-amber-400"><ShieldCheck className="w-3 h-3" /> VETTED</span>}
+                  {session.context.fileName && <span className="truncate max-w-[12rem]">{session.context.fileName}</span>}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => onOpen(session)}
+                  className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-tech text-sm transition-all"
+                >
+                  <PlayCircle className="w-4 h-4" /> RESUME
+                </button>
+                <button onClick={() => startRename(session)} className="p-2 rounded border border-slate-700 text-slate-400 hover:text-white" title="Rename">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => downloadBundle({ name: session.name, data: session.data, context: session.context, settings: session.settings, deepDives: session.progress?.deepDives }, true)}
+                  className="p-2 rounded border border-slate-700 text-slate-400 hover:text-white"
+                  title="Export session bundle"
+                >
+                  <Share2 className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDuplicate(session.id)} className="p-2 rounded border border-slate-700 text-slate-400 hover:text-white" title="Duplicate">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(session)} className="p-2 rounded border border-slate-700 text-slate-400 hover:text-red-400" title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Library;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, FileWarning } from 'lucide-react';
+import { renderPdfPage } from '../services/extractors';
+
+export interface PageRange {
+  from: number;
+  to: number;
+}
+
+interface PdfRangePickerProps {
+  file: File;
+  pageCount: number;
+  range: PageRange;
+  onChange: (range: PageRange) => void;
+}
+
+const PREVIEW_WIDTH = 160;
+
+// Edited as free text and committed on blur or Enter, so typing "12" doesn't clamp at "1"
+const PageInput: React.FC<{ value: number; min: number; max: number; onCommit: (page: number) => void }> = ({ value, min, max, onCommit }) => {
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const page = parseInt(draft, 10);
+    if (Number.isNaN(page)) {
+      setDraft(String(value));
+      return;
+    }
+    const clamped = Math.max(min, Math.min(max, page));
+    setDraft(String(clamped));
+    if (clamped !== value) onCommit(clamped);
+  };
+
+  return (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      className="w-14 bg-slate-950/60 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500/50"
+    />
+  );
+};
+
+// Preview of the first selected page plus the inclusive page range to study
+const PdfRangePicker: React.FC<PdfRangePickerProps> = ({ file, pageCount, range, onChange }) => {
+  const [preview, setPreview] = useState<string | null>(null);
+  const [previewFailed, setPreviewFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setPreviewFailed(false);
+    renderPdfPage(file, range.from, PREVIEW_WIDTH)
+      .then(url => { if (!cancelled) setPreview(url); })
+      .catch(e => {
+        console.error(e);
+        if (!cancelled) setPreviewFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [file, range.from]);
+
+  return (
+    <div className="flex gap-3 mt-2">
+      <div className="w-16 h-20 shrink-0 rounded border border-red-500/30 bg-slate-950/60 flex items-center justify-center overflow-hidden">
+        {preview ? (
+          <img src={preview} alt={`Page ${range.from}`} className="w-full h-full object-contain bg-white" />
+        ) : previewFailed ? (
+          <FileWarning className="w-5 h-5 text-slate-600" />
+        ) : (
+          <Loader2 className="w-4 h-4 text-slate-500 animate-spin" />
+        )}
+      </div>
+      <div className="flex flex-col justify-center gap-1.5 text-[10px] font-mono text-slate-400">
+        <span className="text-slate-500">{pageCount} PAGES · PREVIEW P.{range.from}</span>
+        <span className="flex items-center gap-2">
+          PAGES
+          <PageInput value={range.from} min={1} max={range.to} onCommit={from => onChange({ ...range, from })} />
+          –
+          <PageInput value={range.to} min={range.from} max={pageCount} onCommit={to => onChange({ ...range, to })} />
+        </span>
+        {(range.from > 1 || range.to < pageCount) && (
+          <button onClick={() => onChange({ from: 1, to: pageCount })} className="self-start text-cyan-500 hover:text-cyan-300">
+            USE ALL PAGES
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PdfRangePicker;
@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState, ChangeEvent } from 'react';
+import { UserCircle2, ChevronDown, Check, Plus, Pencil, Download, Upload, Trash2, X } from 'lucide-react';
+import { LearnerProfile } from '../types';
+import { listSessions } from '../services/sessionStore';
+import { PROFILE_EXTENSION, ProfileError, ProfileStats, downloadProfile, importProfile, parseProfileExport, profileStats } from '../services/profiles';
+import { formatDuration } from '../services/debrief';
+
+interface ProfileSwitcherProps {
+  profile: LearnerProfile;
+  profiles: LearnerProfile[];
+  onSwitch: (profile: LearnerProfile) => void;
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onImported: (profile: LearnerProfile) => void;
+}
+
+const menuItemClass = "w-full flex items-center gap-2 px-3 py-2 rounded text-left text-xs font-mono text-slate-300 hover:bg-slate-800 hover:text-white transition-colors";
+
+// Inline name field used for both new profiles and renames
+const NameInput: React.FC<{ initial: string; onCommit: (name: string) => void; onCancel: () => void }> = ({ initial, onCommit, onCancel }) => {
+  const [name, setName] = useState(initial);
+  const commit = () => name.trim() ? onCommit(name.trim()) : onCancel();
+  return (
+    <div className="flex items-center gap-1 px-2 py-1">
+      <input
+        autoFocus
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') onCancel();
+        }}
+        placeholder="Learner name"
+        className="flex-1 min-w-0 bg-slate-950/50 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-white focus:border-cyan-500 focus:outline-none"
+      />
+      <button onClick={commit} className="p-1 text-green-400 hover:text-green-300" title="Save">
+        <Check className="w-3.5 h-3.5" />
+      </button>
+      <button onClick={onCancel} className="p-1 text-slate-500 hover:text-slate-300" title="Cancel">
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({ profile, profiles, onSwitch, onCreate, onRename, onDelete, onImported }) => {
+  const [open, setOpen] = useState(false);
+  const [naming, setNaming] = useState<'NEW' | 'RENAME' | null>(null);
+  const [stats, setStats] = useState<ProfileStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // Totals are recomputed from the archive each time the menu opens
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setStats(null);
+    listSessions(profile.id)
+      .then(sessions => { if (!cancelled) setStats(profileStats(sessions)); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [open, profile.id]);
+
+  const close = () => {
+    setOpen(false);
+    setNaming(null);
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete learner "${profile.name}" and their entire session history from this machine?`)) return;
+    onDelete();
+    close();
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+        onImported(await importProfile(parseProfileExport(await file.text())));
+        close();
+    } catch (err) {
+        console.error(err);
+        setError(err instanceof ProfileError ? err.message : "Could not import the learner profile.");
+    }
+  };
+
+  const accuracy = stats && stats.questionsAnswered > 0 ? Math.round(stats.questionsPassed / stats.questionsAnswered * 100) : null;
+  const others = profiles.filter(p => p.id !== profile.id);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => open ? close() : setOpen(true)}
+        className="flex items-center gap-2 text-xs font-mono text-slate-400 hover:text-cyan-400 transition-colors"
+        title="Switch learner"
+      >
+        <UserCircle2 className="w-4 h-4" />
+        <span className="hidden sm:inline max-w-[8rem] truncate">{profile.name.toUpperCase()}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-40 w-64 glass-panel rounded-lg border border-slate-700 p-1 animate-in fade-in duration-150">
+          <div className="px-3 py-2 border-b border-slate-800">
+            {naming === 'RENAME' ? (
+              <NameInput initial={profile.name} onCommit={name => { onRename(name); setNaming(null); }} onCancel={() => setNaming(null)} />
+            ) : (
+              <p className="font-display text-white truncate">{profile.name}</p>
+            )}
+            {stats ? (
+              <div className="mt-2 grid grid-cols-2 gap-x-3 gap-y-1 text-[10px] font-mono text-slate-500">
+                <span>SESSIONS <span className="text-slate-300">{stats.completed}/{stats.sessions}</span></span>
+                <span>NODES <span className="text-slate-300">{stats.conceptsMastered}/{stats.conceptsTotal}</span></span>
+                <span>ACCURACY <span className="text-slate-300">{accuracy !== null ? `${accuracy}%` : '—'}</span></span>
+                <span>BEST STREAK <span className="text-slate-300">{stats.bestStreak}</span></span>
+                <span className="col-span-2">TIME IN SIMULATION <span className="text-slate-300">{formatDuration(stats.studyTimeMs)}</span></span>
+              </div>
+            ) : (
+              <p className="mt-2 text-[10px] font-mono text-slate-600">Loading stats...</p>
+            )}
+          </div>
+
+          {others.length > 0 && (
+            <div className="py-1 border-b border-slate-800">
+              {others.map(other => (
+                <button key={other.id} onClick={() => { onSwitch(other); close(); }} className={menuItemClass}>
+                  <UserCircle2 className="w-3.5 h-3.5 text-slate-500" /> <span className="truncate">{other.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="py-1">
+            {naming === 'NEW' ? (
+              <NameInput initial="" onCommit={name => { onCreate(name); close(); }} onCancel={() => setNaming(null)} />
+            ) : (
+              <button onClick={() => setNaming('NEW')} className={menuItemClass}>
+                <Plus className="w-3.5 h-3.5 text-cyan-400" /> NEW LEARNER
+              </button>
+            )}
+            <button onClick={() => setNaming('RENAME')} className={menuItemClass}>
+              <Pencil className="w-3.5 h-3.5 text-cyan-400" /> RENAME
+            </button>
+            <button onClick={() => { downloadProfile(profile).catch(console.error); close(); }} className={menuItemClass}>
+              <Download className="w-3.5 h-3.5 text-cyan-400" /> EXPORT PROFILE
+            </button>
+            <button onClick={() => importRef.current?.click()} className={menuItemClass}>
+              <Upload className="w-3.5 h-3.5 text-cyan-400" /> IMPORT PROFILE
+            </button>
+            {others.length > 0 && (
+              <button onClick={handleDelete} className={`${menuItemClass} hover:text-red-400`}>
+                <Trash2 className="w-3.5 h-3.5 text-red-400" /> DELETE LEARNER
+              </button>
+            )}
+          </div>
+          {error && <p className="px-3 pb-2 text-[10px] font-mono text-red-300">{error}</p>}
+          <input ref={importRef} type="file" accept={`${PROFILE_EXTENSION},application/json`} onChange={handleImport} className="hidden" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
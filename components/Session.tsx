@@ -1,71 +1,179 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { StudySessionData, QuestionType, PlayerStats, StudyConcept, InputContext, DeepDiveContent } from '../types';
-import { STABILITY_BONUS, STABILITY_PENALTY } from '../constants';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { StudySessionData, QuestionType, PlayerStats, StudyConcept, InputContext, DeepDiveContent, SessionProgress, StabilityPoint, QuestionAttempt, GenerationSettings, SourceCitation, DeepDiveSection, ConceptChallenge, ChallengeResult, CounterTheoryResult, ChatTurn, GameQuestion, LearnerPreferences } from '../types';
+import { STABILITY_INITIAL, STABILITY_UNLOCK_BONUS, STABILITY_THRESHOLD_WIN } from '../constants';
 import Visualizer from './Visualizer';
-import { evaluateSocraticAnswer, generateDeepDive, generateConceptChallenge, evaluateChallenge } from '../services/geminiService';
+import { gradeAnswer, evaluateCounterTheory, generateDeepDive, generateConceptChallenge, generateFollowUpQuestion, GenerationOptions, DeepDivePreview } from '../services/geminiService';
+import { LLMProvider, withSignal } from '../services/llm/provider';
+import { scheduleReview, isDue, hasSynced } from '../services/scheduler';
+import { contextForConcept } from '../services/chunker';
+import { anchorCitations, anchorDeepDiveCitations } from '../services/citations';
+import { findDocument, isVerifiable } from '../services/documents';
+import { FALLBACK_RUBRIC } from '../services/grading';
+import { applyIdleDecay, applyOutcome, applySync, createStats, gameStatus, Outcome, rebootStats } from '../services/rules';
+import { ADAPTIVE_MAX_QUESTIONS, followUpConcept, followUpType, missedConcepts, nextDifficulty, pickNextQuestion } from '../services/adaptive';
+import { describeError, isAborted } from '../services/errors';
+import { sanitizeRelations, orderByPrerequisites, lockedPrerequisites, recommendNext } from '../services/conceptGraph';
+import SourceViewer from './SourceViewer';
+import CitationChips from './CitationChips';
+import GradeBreakdown from './GradeBreakdown';
+import TutorChat from './TutorChat';
+import ConceptGraph from './ConceptGraph';
+import ExportMenu from './ExportMenu';
 import { 
     ShieldCheck, ShieldAlert, Brain, Cpu, CheckCircle2, XCircle, 
     Database, PlayCircle, BookOpen, Sparkles, ChevronRight,
-    Zap, Lock, Unlock, Download, Activity, Terminal, ArrowLeft, Loader2
+    Zap, Lock, Unlock, Activity, Terminal, ArrowLeft, Loader2, MessageSquare, Network, List, Route, Compass, Shuffle, RotateCcw, RefreshCw
 } from 'lucide-react';
 
 interface SessionProps {
   data: StudySessionData;
   context: InputContext;
-  apiKey: string;
+  provider: LLMProvider;
+  settings?: GenerationSettings;
+  initialProgress?: SessionProgress;
+  onProgress?: (progress: SessionProgress) => void;
+  onComplete?: () => void;
   onExit: () => void;
+  // Set while the session's questions are still streaming in; the simulation stays locked until then
+  generating?: { ready: number; total: number };
+  // The learner's study modes seed a new session, and toggling one here updates them
+  preferences?: LearnerPreferences;
+  onPreferencesChange?: (changes: Partial<LearnerPreferences>) => void;
 }
 
-type ViewMode = 'DATA_CORE' | 'SIMULATION';
-type ConceptMode = 'OVERVIEW' | 'DEEP_DIVE' | 'SYNC_PROTOCOL';
+type ViewMode = SessionProgress['viewMode'];
+
+const VISUALIZER_WINDOW = 20;
+type ConceptMode = 'OVERVIEW' | 'DEEP_DIVE' | 'TUTOR' | 'SYNC_PROTOCOL';
 type MobileView = 'LIST' | 'FOCUS';
+type NodeView = 'LIST' | 'GRAPH';
 
-const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
-  const [viewMode, setViewMode] = useState<ViewMode>('DATA_CORE');
-  const [concepts, setConcepts] = useState<StudyConcept[]>(data.concepts);
+const Session: React.FC<SessionProps> = ({ data, context, provider, settings, initialProgress, onProgress, onComplete, onExit, generating, preferences, onPreferencesChange }) => {
+  const [viewMode, setViewMode] = useState<ViewMode>(initialProgress?.viewMode ?? 'DATA_CORE');
+  const [concepts, setConcepts] = useState<StudyConcept[]>(initialProgress?.concepts ?? data.concepts);
   
   // Mobile Responsiveness State
   const [mobileView, setMobileView] = useState<MobileView>('LIST');
 
   // Data Core State
-  const [activeConceptId, setActiveConceptId] = useState<string | null>(null);
+  const [nodeView, setNodeView] = useState<NodeView>('LIST');
+  const [learningPath, setLearningPath] = useState(initialProgress?.learningPath ?? preferences?.learningPath ?? false);
+  const [gatePrerequisites, setGatePrerequisites] = useState(initialProgress?.gatePrerequisites ?? preferences?.gatePrerequisites ?? false);
+  const [unlockedTerms, setUnlockedTerms] = useState<string[]>([]);
+  const [activeConceptId, setActiveConceptId] = useState<string | null>(initialProgress?.activeConceptId ?? null);
   const [conceptMode, setConceptMode] = useState<ConceptMode>('OVERVIEW');
-  const [deepDiveData, setDeepDiveData] = useState<Record<string, DeepDiveContent>>({});
+  const [deepDiveData, setDeepDiveData] = useState<Record<string, DeepDiveContent>>(initialProgress?.deepDives ?? {});
   const [loadingDeepDive, setLoadingDeepDive] = useState(false);
-  const [challengeQ, setChallengeQ] = useState<string | null>(null);
+  const [deepDivePreview, setDeepDivePreview] = useState<{ conceptId: string; content: DeepDivePreview } | null>(null);
+  const [challenge, setChallenge] = useState<ConceptChallenge | null>(null);
   const [challengeAnswer, setChallengeAnswer] = useState('');
-  const [challengeFeedback, setChallengeFeedback] = useState<{passed: boolean, msg: string} | null>(null);
+  const [challengeFeedback, setChallengeFeedback] = useState<ChallengeResult | null>(null);
   const [loadingChallenge, setLoadingChallenge] = useState(false);
+  const [openCitation, setOpenCitation] = useState<SourceCitation | null>(null);
+  const [coreError, setCoreError] = useState<string | null>(null);
+  const [tutorChats, setTutorChats] = useState<Record<string, ChatTurn[]>>(initialProgress?.tutorChats ?? {});
 
   // Quiz State
-  const [currentQIndex, setCurrentQIndex] = useState(0);
-  const [stats, setStats] = useState<PlayerStats>({ syncedNodes: 0, stability: 50, streak: 0 });
-  const [history, setHistory] = useState<{ time: number; stability: number }[]>([{ time: 0, stability: 50 }]);
+  const [adaptive, setAdaptive] = useState(initialProgress?.adaptive ?? preferences?.adaptive ?? false);
+  const [questions, setQuestions] = useState<GameQuestion[]>(initialProgress?.questions ?? data.questions);
+  const [generatingFollowUp, setGeneratingFollowUp] = useState(false);
+  const [currentQIndex, setCurrentQIndex] = useState(initialProgress?.currentQIndex ?? 0);
+  const [stats, setStats] = useState<PlayerStats>(initialProgress?.stats ?? createStats(Date.now()));
+  const [history, setHistory] = useState<StabilityPoint[]>(initialProgress?.history ?? [{ time: 0, stability: STABILITY_INITIAL }]);
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
-  const [socraticInput, setSocraticInput] = useState('');
-  const [feedback, setFeedback] = useState<{ type: 'success' | 'error' | 'neutral', msg: string } | null>(null);
+  const [freeResponse, setFreeResponse] = useState('');
+  const [feedback, setFeedback] = useState<{ type: 'success' | 'error' | 'neutral', msg: string, grade?: ChallengeResult | CounterTheoryResult } | null>(null);
   const [isEvaluating, setIsEvaluating] = useState(false);
-  const [quizComplete, setQuizComplete] = useState(false);
+  // Evaluator feedback as it streams, before the scores arrive
+  const [streamingFeedback, setStreamingFeedback] = useState<string | null>(null);
+  const [quizComplete, setQuizComplete] = useState(initialProgress?.quizComplete ?? false);
+  const [attempts, setAttempts] = useState<QuestionAttempt[]>(initialProgress?.attempts ?? []);
+  const questionStartRef = useRef(Date.now());
+  const completedOnMount = useRef(quizComplete);
+
+  // Requests still in flight when the session unmounts (EXIT SYSTEM, ARCHIVE) are cancelled
+  const requestsRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    requestsRef.current = controller;
+    return () => controller.abort();
+  }, []);
+  const scopedProvider = () => requestsRef.current ? withSignal(provider, requestsRef.current.signal) : provider;
+
+  // Streamed sessions open before their questions exist. Fold later data in without discarding
+  // what the student has already done with the concepts.
+  const initialData = useRef(data);
+  useEffect(() => {
+    if (data === initialData.current) return;
+    setConcepts(prev => data.concepts.map(concept => {
+        const local = prev.find(c => c.id === concept.id);
+        return local ? { ...concept, mastered: local.mastered, review: local.review } : concept;
+    }));
+    setQuestions(data.questions);
+  }, [data]);
 
-  const currentQ = data.questions[currentQIndex];
+  const currentQ = questions[currentQIndex];
+  const status = gameStatus(stats);
+  const isFreeResponse = currentQ?.type !== QuestionType.CONCEPT_CHECK;
   const activeConcept = concepts.find(c => c.id === activeConceptId);
+  const activeConceptDue = !!activeConcept && isDue(activeConcept);
+  // Long artifacts are studied per chunk; concept-scoped calls only need the chunk that introduced the concept
+  const conceptContext = activeConcept ? contextForConcept(context, activeConcept, data.sourceChunks) : context;
+  const verifiable = (citation: SourceCitation) => isVerifiable(citation, context);
+  const activeChunk = activeConcept?.sourceChunk !== undefined ? data.sourceChunks?.[activeConcept.sourceChunk] : undefined;
+  const relations = useMemo(() => sanitizeRelations(data.relations, data.concepts), [data]);
+  const orderedConcepts = learningPath ? orderByPrerequisites(concepts, relations) : concepts;
+  const nextConcept = learningPath ? recommendNext(orderedConcepts, relations) : undefined;
+  const blockingPrerequisites = (concept: StudyConcept) =>
+      gatePrerequisites ? lockedPrerequisites(concept, concepts, relations) : [];
+  const activeBlockers = activeConcept ? blockingPrerequisites(activeConcept) : [];
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  // -- Helpers --
-  const updateStability = (delta: number) => {
-    setStats(prev => {
-      const newStability = Math.max(0, Math.min(100, prev.stability + delta));
-      const newHistory = [...history, { time: history.length, stability: newStability }];
-      if (newHistory.length > 20) newHistory.shift();
-      setHistory(newHistory);
-      return {
-        ...prev,
-        stability: newStability,
-        streak: delta > 0 ? prev.streak + 1 : 0
-      };
+  // Report every meaningful change so the library can resume from this exact point
+  useEffect(() => {
+    onProgress?.({
+        concepts,
+        deepDives: deepDiveData,
+        currentQIndex,
+        quizComplete,
+        stats,
+        history,
+        attempts,
+        activeConceptId,
+        viewMode,
+        tutorChats,
+        learningPath,
+        gatePrerequisites,
+        adaptive,
+        questions
     });
+  }, [concepts, deepDiveData, currentQIndex, quizComplete, stats, history, attempts, activeConceptId, viewMode, tutorChats, learningPath, gatePrerequisites, adaptive, questions]);
+
+  // Runs after the progress report above so the debrief sees the final attempt
+  useEffect(() => {
+    if (quizComplete && !completedOnMount.current) onComplete?.();
+  }, [quizComplete]);
+
+  // Time each question from when it is first shown in the simulation view
+  useEffect(() => {
+    questionStartRef.current = Date.now();
+  }, [currentQIndex, viewMode]);
+
+  // Charge the decay accrued while the session sat in the archive
+  useEffect(() => {
+    const decayed = applyIdleDecay(stats, Date.now());
+    if (decayed.stability !== stats.stability) setStatsWithHistory(decayed);
+  }, []);
+
+  // -- Helpers --
+  // Full timeline is kept for the debrief; the live chart only shows the tail
+  const setStatsWithHistory = (next: PlayerStats) => {
+    setStats(next);
+    setHistory(prev => [...prev, { time: prev.length, stability: next.stability }]);
   };
 
+  const recordOutcome = (outcome: Outcome) => setStatsWithHistory(applyOutcome(stats, outcome, Date.now()));
+
   const handleMobileBack = () => {
     setMobileView('LIST');
   };
@@ -74,128 +182,298 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
   const handleConceptSelect = (id: string) => {
     setActiveConceptId(id);
     setConceptMode('OVERVIEW');
-    setChallengeQ(null);
+    setChallenge(null);
     setChallengeAnswer('');
     setChallengeFeedback(null);
+    setUnlockedTerms([]);
+    setCoreError(null);
     setMobileView('FOCUS');
   };
 
-  const fetchDeepDive = async () => {
+  const fetchDeepDive = async (options: GenerationOptions = {}) => {
     if (!activeConcept) return;
-    if (deepDiveData[activeConcept.id]) {
+    if (deepDiveData[activeConcept.id] && !options.regenerate) {
         setConceptMode('DEEP_DIVE');
         return;
     }
     
     setLoadingDeepDive(true);
+    setCoreError(null);
+    setDeepDivePreview(null);
+    setConceptMode('DEEP_DIVE');
     try {
-        const data = await generateDeepDive(activeConcept.term, context, apiKey);
-        setDeepDiveData(prev => ({...prev, [activeConcept.id]: data}));
+        const content = await generateDeepDive(activeConcept.term, conceptContext, scopedProvider(), settings, options,
+            preview => setDeepDivePreview({ conceptId: activeConcept.id, content: preview }));
+        // Anchor against the full artifact, not the chunk, so offsets match the source viewer
+        setDeepDiveData(prev => ({...prev, [activeConcept.id]: anchorDeepDiveCitations(content, context)}));
         setConceptMode('DEEP_DIVE');
     } catch (e) {
+        if (isAborted(e)) return;
         console.error(e);
+        setCoreError(describeError(e, "Deep dive download failed. Try again."));
+        if (!deepDiveData[activeConcept.id]) setConceptMode('OVERVIEW');
     } finally {
         setLoadingDeepDive(false);
+        setDeepDivePreview(null);
     }
   };
 
-  const initSyncProtocol = async () => {
-    if (!activeConcept) return;
+  const initSyncProtocol = async (options: GenerationOptions = {}) => {
+    if (!activeConcept || activeBlockers.length > 0) return;
     setLoadingChallenge(true);
     setConceptMode('SYNC_PROTOCOL');
-    setChallengeQ(null);
+    setChallenge(null);
     setChallengeAnswer('');
     setChallengeFeedback(null);
+    setUnlockedTerms([]);
     try {
-        const q = await generateConceptChallenge(activeConcept.term, context, apiKey);
-        setChallengeQ(q);
+        setChallenge(await generateConceptChallenge(activeConcept.term, conceptContext, scopedProvider(), settings, options));
     } catch(e) {
-        setChallengeQ("Error generating protocol. Try again.");
+        if (isAborted(e)) return;
+        setChallenge({ question: describeError(e, "Error generating protocol. Try again."), rubric: FALLBACK_RUBRIC });
     } finally {
         setLoadingChallenge(false);
     }
   };
 
   const submitSyncChallenge = async () => {
-    if (!activeConcept || !challengeQ || !challengeAnswer) return;
+    if (!activeConcept || !challenge || !challengeAnswer) return;
     setLoadingChallenge(true);
+    setCoreError(null);
     try {
-        const result = await evaluateChallenge(challengeQ, challengeAnswer, context, apiKey);
-        setChallengeFeedback({ passed: result.passed, msg: result.feedback });
+        setStreamingFeedback('');
+        const graded = await gradeAnswer(challenge.question, challenge.rubric, challengeAnswer, conceptContext, scopedProvider(), setStreamingFeedback);
+        // Evidence was anchored against the concept's chunk; re-anchor against the whole artifact
+        const result = { ...graded, evidence: anchorCitations(graded.evidence, context) ?? [] };
+        setChallengeFeedback(result);
+
+        const review = scheduleReview(activeConcept.review, result.score);
+        const updated = concepts.map(c => c.id === activeConcept.id
+            ? {...c, review, mastered: result.passed}
+            : c);
+        setConcepts(updated);
         
         if (result.passed) {
-             setConcepts(prev => prev.map(c => c.id === activeConcept.id ? {...c, mastered: true} : c));
-             updateStability(10);
-             setStats(s => ({...s, syncedNodes: s.syncedNodes + 1}));
+             // Nodes whose last unsynchronized prerequisite was this one
+             const unlocked = gatePrerequisites
+                 ? updated.filter(c => !c.mastered
+                     && lockedPrerequisites(c, concepts, relations).length > 0
+                     && lockedPrerequisites(c, updated, relations).length === 0)
+                 : [];
+             setUnlockedTerms(unlocked.map(c => c.term));
+             recordOutcome({ passed: true, bonus: unlocked.length * STABILITY_UNLOCK_BONUS });
+             if (!activeConcept.mastered && !hasSynced(activeConcept.review)) setStats(applySync);
         } else {
-             updateStability(-5);
+             recordOutcome({ passed: false });
         }
     } catch (e) {
+        if (isAborted(e)) return;
         console.error(e);
+        setCoreError(describeError(e, "Sync evaluation failed. Try again."));
     } finally {
         setLoadingChallenge(false);
+        setStreamingFeedback(null);
     }
   };
 
   // -- Quiz Interactions --
+  const recordAttempt = (attempt: Omit<QuestionAttempt, 'questionId' | 'durationMs' | 'answeredAt'>) => {
+    const answeredAt = Date.now();
+    setAttempts(prev => [
+        ...prev.filter(a => a.questionId !== currentQ.id),
+        { ...attempt, questionId: currentQ.id, durationMs: answeredAt - questionStartRef.current, answeredAt }
+    ]);
+  };
+
   const handleChoiceSubmit = () => {
     if (selectedOption === null) return;
     const isCorrect = selectedOption === currentQ.correctOptionIndex;
+    recordAttempt({ passed: isCorrect, selectedOption, feedback: currentQ.explanation });
     if (isCorrect) {
       setFeedback({ type: 'success', msg: currentQ.explanation });
-      updateStability(STABILITY_BONUS);
     } else {
       setFeedback({ type: 'error', msg: `Incorrect. ${currentQ.explanation}` });
-      updateStability(-STABILITY_PENALTY);
     }
+    recordOutcome({ passed: isCorrect, difficulty: currentQ.difficulty });
   };
 
-  const handleSocraticSubmit = async () => {
-    if (!socraticInput.trim()) return;
+  // SOCRATIC_DEFENSE answers go to the shared grader, COUNTER_THEORY rebuttals to their own evaluator; both return a criterion breakdown
+  const handleFreeResponseSubmit = async () => {
+    if (!freeResponse.trim()) return;
     setIsEvaluating(true);
     try {
-        const evaluation = await evaluateSocraticAnswer(currentQ.question, socraticInput, context, apiKey);
-        const passed = evaluation.score >= 70;
+        setStreamingFeedback('');
+        const isCounterTheory = currentQ.type === QuestionType.COUNTER_THEORY;
+        const evaluation = isCounterTheory
+            ? await evaluateCounterTheory(currentQ.question, currentQ.rivalTheory || '', currentQ.rubric, freeResponse, context, scopedProvider(), setStreamingFeedback)
+            : await gradeAnswer(currentQ.question, currentQ.rubric, freeResponse, context, scopedProvider(), setStreamingFeedback);
+        const passed = evaluation.passed;
+        recordAttempt({ passed, response: freeResponse, score: evaluation.score, feedback: evaluation.feedback });
         setFeedback({
             type: passed ? 'success' : 'error',
-            msg: `[EVALUATION]: ${evaluation.feedback} (Score: ${evaluation.score}/100)`
+            msg: `[${isCounterTheory ? 'ADJUDICATION' : 'EVALUATION'}]: ${evaluation.feedback} (Score: ${evaluation.score}/100)`,
+            grade: evaluation
         });
-        updateStability(passed ? STABILITY_BONUS * 1.5 : -STABILITY_PENALTY);
+        recordOutcome({ passed, difficulty: currentQ.difficulty, freeResponse: true });
     } catch (e) {
-        setFeedback({ type: 'error', msg: "Communication with evaluation core failed." });
+        if (isAborted(e)) return;
+        setFeedback({ type: 'error', msg: describeError(e, "Communication with evaluation core failed.") });
     } finally {
         setIsEvaluating(false);
+        setStreamingFeedback(null);
     }
   };
 
+  const submitHandlers: Record<QuestionType, () => void> = {
+    [QuestionType.CONCEPT_CHECK]: handleChoiceSubmit,
+    [QuestionType.SOCRATIC_DEFENSE]: handleFreeResponseSubmit,
+    [QuestionType.COUNTER_THEORY]: handleFreeResponseSubmit
+  };
+
+  const showQuestion = (index: number) => {
+    setCurrentQIndex(index);
+    setSelectedOption(null);
+    setFreeResponse('');
+    setFeedback(null);
+  };
+
   const nextQuestion = () => {
-    if (currentQIndex < data.questions.length - 1) {
-        setCurrentQIndex(prev => prev + 1);
-        setSelectedOption(null);
-        setSocraticInput('');
-        setFeedback(null);
+    if (status === 'COLLAPSED' || (adaptive && status === 'WON')) {
+        setQuizComplete(true);
+    } else if (adaptive) {
+        nextAdaptiveQuestion();
+    } else if (currentQIndex < questions.length - 1) {
+        showQuestion(currentQIndex + 1);
     } else {
         setQuizComplete(true);
     }
   };
 
+  // Adaptive mode: runs until the game is won or collapses (see nextQuestion), re-targeting after every answer
+  const nextAdaptiveQuestion = async () => {
+    if (attempts.length >= ADAPTIVE_MAX_QUESTIONS) {
+        setQuizComplete(true);
+        return;
+    }
+    const passed = attempts.find(a => a.questionId === currentQ.id)?.passed ?? false;
+    const targetDifficulty = nextDifficulty(currentQ, passed);
+    const weakConcepts = missedConcepts(questions, attempts, concepts);
+    const picked = pickNextQuestion(questions, attempts, targetDifficulty, weakConcepts);
+    if (picked) {
+        showQuestion(questions.indexOf(picked));
+        return;
+    }
+
+    setGeneratingFollowUp(true);
+    try {
+        const concept = followUpConcept(concepts, weakConcepts, questions.length);
+        const conceptScope = contextForConcept(context, concept, data.sourceChunks);
+        const followUp = await generateFollowUpQuestion(concept, followUpType(passed), targetDifficulty, conceptScope, scopedProvider(), settings);
+        setQuestions(prev => [...prev, { ...followUp, citations: anchorCitations(followUp.citations, context) }]);
+        showQuestion(questions.length);
+    } catch (e) {
+        if (isAborted(e)) return;
+        console.error(e);
+        setFeedback({ type: 'error', msg: describeError(e, "Follow-up generation failed. Continue to retry.") });
+    } finally {
+        setGeneratingFollowUp(false);
+    }
+  };
+
+  const rebootSimulation = () => {
+    setStatsWithHistory(rebootStats(stats, Date.now()));
+    setAttempts([]);
+    setQuizComplete(false);
+    completedOnMount.current = false;
+    showQuestion(0);
+  };
+
   // -- Renderers --
+  const renderCitations = (citations?: SourceCitation[]) => (
+      <CitationChips citations={citations} verifiable={verifiable} onSelect={setOpenCitation} />
+  );
+
+  // While a deep dive streams in, its partial text replaces whatever was shown before
+  const streamedDeepDive = activeConcept && deepDivePreview?.conceptId === activeConcept.id ? deepDivePreview.content : undefined;
+  const shownDeepDive: DeepDivePreview | undefined = loadingDeepDive
+      ? streamedDeepDive
+      : activeConcept ? deepDiveData[activeConcept.id] : undefined;
+
+  const deepDiveCitations = (section: DeepDiveSection) =>
+      activeConcept ? deepDiveData[activeConcept.id]?.citations?.filter(c => c.section === section) : undefined;
 
   const renderLeftPanel = () => (
       <div className="h-full flex flex-col gap-4">
           <div className="glass-panel p-6 rounded-xl border-l-4 border-cyan-500">
               <h1 className="font-display text-xl lg:text-2xl font-bold text-white mb-2">{data.title}</h1>
+              {data.vettedAt && (
+                  <span
+                    className="inline-flex items-center gap-1 mb-2 px-2 py-0.5 rounded border border-amber-500/30 bg-amber-900/10 text-[10px] font-mono text-amber-300"
+                    title={`Reviewed and locked by an instructor on ${new Date(data.vettedAt).toLocaleDateString()}`}
+                  >
+                      <ShieldCheck className="w-3 h-3" /> VETTED
+                  </span>
+              )}
               <p className="text-xs text-slate-300 font-mono leading-relaxed">{data.summary}</p>
           </div>
 
           <div className="flex-1 glass-panel rounded-xl p-4 overflow-y-auto custom-scrollbar">
-              <h3 className="text-xs font-tech text-slate-400 mb-4 tracking-widest uppercase">
-                  {viewMode === 'DATA_CORE' ? 'Neural Network Nodes' : 'Simulation Sequence'}
-              </h3>
+              <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xs font-tech text-slate-400 tracking-widest uppercase">
+                      {viewMode === 'DATA_CORE' ? 'Neural Network Nodes' : 'Simulation Sequence'}
+                  </h3>
+                  {viewMode === 'DATA_CORE' && (
+                      <div className="flex gap-1">
+                          <button
+                            onClick={() => { setLearningPath(!learningPath); onPreferencesChange?.({ learningPath: !learningPath }); }}
+                            className={`p-1.5 rounded border transition-all ${learningPath ? 'border-purple-500 text-purple-300 bg-purple-900/30' : 'border-slate-700 text-slate-400 hover:text-white hover:border-slate-500'}`}
+                            title="Learning path: order nodes by prerequisites"
+                          >
+                              <Route className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => { setGatePrerequisites(!gatePrerequisites); onPreferencesChange?.({ gatePrerequisites: !gatePrerequisites }); }}
+                            className={`p-1.5 rounded border transition-all ${gatePrerequisites ? 'border-amber-500 text-amber-300 bg-amber-900/30' : 'border-slate-700 text-slate-400 hover:text-white hover:border-slate-500'}`}
+                            title="Lock Sync Protocols until prerequisites are synchronized"
+                          >
+                              <Lock className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            onClick={() => setNodeView(nodeView === 'LIST' ? 'GRAPH' : 'LIST')}
+                            className="p-1.5 rounded border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 transition-all"
+                            title={nodeView === 'LIST' ? 'Show concept map' : 'Show node list'}
+                          >
+                              {nodeView === 'LIST' ? <Network className="w-3.5 h-3.5" /> : <List className="w-3.5 h-3.5" />}
+                          </button>
+                      </div>
+                  )}
+              </div>
               
-              {viewMode === 'DATA_CORE' ? (
+              {viewMode === 'DATA_CORE' && nodeView === 'GRAPH' ? (
+                  <ConceptGraph
+                    concepts={concepts}
+                    relations={relations}
+                    activeConceptId={activeConceptId}
+                    onSelect={handleConceptSelect}
+                  />
+              ) : viewMode === 'DATA_CORE' ? (
                   <div className="space-y-3">
-                      {concepts.map((concept) => (
+                      {learningPath && (
+                          nextConcept ? (
+                              <button
+                                onClick={() => handleConceptSelect(nextConcept.id)}
+                                className="w-full p-3 rounded-lg border border-purple-500/40 bg-purple-900/20 text-left flex items-center gap-3 hover:bg-purple-900/30 transition-all"
+                              >
+                                  <Compass className="w-4 h-4 text-purple-400 shrink-0" />
+                                  <span className="text-xs font-mono text-purple-200">RECOMMENDED NEXT: <span className="text-white font-bold">{nextConcept.term}</span></span>
+                              </button>
+                          ) : (
+                              <p className="p-3 rounded-lg border border-cyan-500/30 bg-cyan-900/10 text-xs font-mono text-cyan-300">PATH COMPLETE. ALL NODES SYNCHRONIZED.</p>
+                          )
+                      )}
+                      {orderedConcepts.map((concept, step) => {
+                          const gated = blockingPrerequisites(concept).length > 0;
+                          return (
                           <button
                             key={concept.id}
                             onClick={() => handleConceptSelect(concept.id)}
@@ -210,14 +488,20 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                               <div className="flex items-center justify-between relative z-10">
                                   <div>
                                       <div className="flex items-center gap-2 mb-1">
-                                          {concept.mastered ? (
-                                              <Lock className="w-3 h-3 text-cyan-400" />
+                                          {learningPath && <span className="text-[10px] font-mono text-slate-500">{String(step + 1).padStart(2, '0')}</span>}
+                                          {gated ? (
+                                              <Lock className="w-3 h-3 text-slate-600" />
+                                          ) : concept.mastered ? (
+                                              <Lock className={`w-3 h-3 ${isDue(concept) ? 'text-amber-400' : 'text-cyan-400'}`} />
                                           ) : (
                                               <Unlock className="w-3 h-3 text-slate-400" />
                                           )}
-                                          <span className={`font-display text-sm font-bold ${activeConceptId === concept.id ? 'text-white' : 'text-slate-300'}`}>
+                                          <span className={`font-display text-sm font-bold ${activeConceptId === concept.id ? 'text-white' : gated ? 'text-slate-500' : 'text-slate-300'}`}>
                                               {concept.term}
                                           </span>
+                                          {concept.sources && concept.sources.length > 0 && (
+                                              <span className="text-[9px] font-mono text-slate-600">{concept.sources.join('·')}</span>
+                                          )}
                                       </div>
                                       <div className="h-1 w-12 bg-slate-800 rounded-full overflow-hidden">
                                           <div className={`h-full ${concept.mastered ? 'bg-cyan-400' : 'bg-slate-700'}`} style={{width: concept.mastered ? '100%' : '30%'}} />
@@ -226,17 +510,18 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                                   <ChevronRight className={`w-4 h-4 ${activeConceptId === concept.id ? 'text-cyan-400' : 'text-slate-600'}`} />
                               </div>
                           </button>
-                      ))}
+                          );
+                      })}
                   </div>
               ) : (
                 <div className="space-y-2">
-                     {data.questions.map((q, idx) => (
+                     {questions.map((q, idx) => (
                          <div 
                             key={q.id} 
                             className={`p-3 rounded border text-xs font-mono flex items-center justify-between ${idx === currentQIndex ? 'bg-purple-900/20 border-purple-500/50 text-white' : 'bg-slate-900/50 border-slate-800 text-slate-400'}`}
                         >
-                            <span>NODE_0{idx + 1}</span>
-                            {idx < currentQIndex && <CheckCircle2 className="w-3 h-3 text-green-500" />}
+                            <span>NODE_0{idx + 1}{adaptive && <span className="ml-2 text-slate-600">D{q.difficulty}</span>}</span>
+                            {attempts.some(a => a.questionId === q.id) && <CheckCircle2 className="w-3 h-3 text-green-500" />}
                          </div>
                      ))}
                 </div>
@@ -244,7 +529,7 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
           </div>
           
           <div className="h-48 shrink-0">
-             <Visualizer stats={stats} history={history} />
+             <Visualizer stats={stats} history={history.slice(-VISUALIZER_WINDOW)} />
           </div>
       </div>
   );
@@ -287,13 +572,28 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                 <div className="absolute inset-0 bg-gradient-to-r from-cyan-900/10 to-transparent pointer-events-none" />
                 <div>
                     <h2 className="text-2xl lg:text-3xl font-display font-bold text-white mb-2">{activeConcept.term}</h2>
-                    <div className="flex gap-4">
-                        <span className={`px-2 py-1 rounded text-[10px] font-mono border ${activeConcept.mastered ? 'bg-cyan-900/30 border-cyan-500 text-cyan-400' : 'bg-red-900/30 border-red-500 text-red-400'}`}>
-                            STATUS: {activeConcept.mastered ? 'SYNCHRONIZED' : 'UNSTABLE'}
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                        <span className={`px-2 py-1 rounded text-[10px] font-mono border ${activeConceptDue ? 'bg-amber-900/30 border-amber-500 text-amber-400' : activeConcept.mastered ? 'bg-cyan-900/30 border-cyan-500 text-cyan-400' : 'bg-red-900/30 border-red-500 text-red-400'}`}>
+                            STATUS: {activeConceptDue ? 'DECAYING' : activeConcept.mastered ? 'SYNCHRONIZED' : 'UNSTABLE'}
                         </span>
+                        {hasSynced(activeConcept.review) && (
+                            <span className="px-2 py-1 rounded text-[10px] font-mono bg-slate-800 border border-slate-700 text-slate-400">
+                                NEXT SYNC: {activeConceptDue ? 'NOW' : new Date(activeConcept.review!.due).toLocaleDateString()}
+                            </span>
+                        )}
                         <span className="px-2 py-1 rounded text-[10px] font-mono bg-slate-800 border border-slate-700 text-slate-400">
                             ID: {activeConcept.id.substring(0, 8)}
                         </span>
+                        {activeChunk && (
+                            <span className="px-2 py-1 rounded text-[10px] font-mono bg-slate-800 border border-slate-700 text-slate-400 truncate max-w-[12rem]" title={activeChunk.heading}>
+                                SRC: {activeChunk.heading || `SEGMENT ${activeChunk.index + 1}`}
+                            </span>
+                        )}
+                        {activeConcept.sources?.map(id => (
+                            <span key={id} className="px-2 py-1 rounded text-[10px] font-mono bg-purple-900/20 border border-purple-500/30 text-purple-300 truncate max-w-[12rem]" title={findDocument(context, id)?.fileName}>
+                                {id}: {findDocument(context, id)?.fileName}
+                            </span>
+                        ))}
                     </div>
                 </div>
                 <div className="flex gap-2 w-full sm:w-auto justify-end">
@@ -305,17 +605,24 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                         <Activity className="w-5 h-5" />
                     </button>
                     <button 
-                        onClick={fetchDeepDive}
+                        onClick={() => fetchDeepDive()}
                         className={`p-3 rounded-lg border transition-all flex-1 sm:flex-none justify-center flex ${conceptMode === 'DEEP_DIVE' ? 'bg-purple-900/40 border-purple-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-white'}`}
                         title="Deep Dive"
                     >
                         <Database className="w-5 h-5" />
                     </button>
                     <button 
-                         onClick={initSyncProtocol}
-                         disabled={activeConcept.mastered}
+                        onClick={() => setConceptMode('TUTOR')}
+                        className={`p-3 rounded-lg border transition-all flex-1 sm:flex-none justify-center flex ${conceptMode === 'TUTOR' ? 'bg-emerald-900/40 border-emerald-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-white'}`}
+                        title="Tutor"
+                    >
+                        <MessageSquare className="w-5 h-5" />
+                    </button>
+                    <button 
+                         onClick={() => initSyncProtocol()}
+                         disabled={(activeConcept.mastered && !activeConceptDue) || activeBlockers.length > 0}
                          className={`p-3 rounded-lg border transition-all flex-1 sm:flex-none justify-center flex ${conceptMode === 'SYNC_PROTOCOL' ? 'bg-cyan-900/40 border-cyan-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:text-white disabled:opacity-30'}`}
-                         title="Sync Protocol"
+                         title={activeBlockers.length > 0 ? 'Locked: synchronize prerequisites first' : 'Sync Protocol'}
                     >
                         <Zap className="w-5 h-5" />
                     </button>
@@ -324,8 +631,32 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
 
             {/* Content Area */}
             <div className="flex-1 glass-panel rounded-xl p-4 lg:p-8 overflow-y-auto custom-scrollbar relative">
+                {coreError && (
+                    <div className="mb-6 p-3 rounded border border-red-500/40 bg-red-900/20 text-xs text-red-200 flex items-start justify-between gap-3">
+                        <span>{coreError}</span>
+                        <button onClick={() => setCoreError(null)} className="text-red-400 hover:text-white font-mono shrink-0">DISMISS</button>
+                    </div>
+                )}
                 {conceptMode === 'OVERVIEW' && (
                     <div className="space-y-8 animate-in slide-in-from-bottom-2 duration-300">
+                        {activeBlockers.length > 0 && (
+                            <div className="p-4 rounded-lg border border-slate-700 bg-slate-900/60">
+                                <p className="text-xs font-mono text-slate-400 mb-3 flex items-center gap-2">
+                                    <Lock className="w-3 h-3" /> NODE LOCKED. SYNCHRONIZE PREREQUISITES FIRST:
+                                </p>
+                                <div className="flex flex-wrap gap-2">
+                                    {activeBlockers.map(prerequisite => (
+                                        <button
+                                            key={prerequisite.id}
+                                            onClick={() => handleConceptSelect(prerequisite.id)}
+                                            className="px-2 py-1 rounded border border-purple-500/40 text-purple-300 hover:bg-purple-900/30 text-[10px] font-mono transition-all"
+                                        >
+                                            {prerequisite.term}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                         <section>
                             <h3 className="text-xs font-tech text-cyan-400 mb-2 uppercase tracking-widest flex items-center gap-2">
                                 <Terminal className="w-3 h-3" /> Definition
@@ -333,6 +664,7 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                             <p className="text-base lg:text-lg text-slate-200 leading-relaxed font-body border-l-2 border-slate-700 pl-4">
                                 {activeConcept.definition}
                             </p>
+                            {renderCitations(activeConcept.citations)}
                         </section>
                         <section className="bg-slate-900/50 p-6 rounded-lg border border-slate-800">
                             <h3 className="text-xs font-tech text-purple-400 mb-2 uppercase tracking-widest flex items-center gap-2">
@@ -342,13 +674,29 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                                 "{activeConcept.analogy}"
                             </p>
                         </section>
+                        {activeConcept.review && activeConcept.review.history.length > 0 && (
+                            <section>
+                                <h3 className="text-xs font-tech text-slate-400 mb-2 uppercase tracking-widest">Sync Log</h3>
+                                <div className="flex flex-wrap gap-2">
+                                    {activeConcept.review.history.map(log => (
+                                        <span
+                                            key={log.reviewedAt}
+                                            className={`px-2 py-1 rounded text-[10px] font-mono border ${log.quality >= 3 ? 'border-cyan-500/30 text-cyan-400' : 'border-red-500/30 text-red-400'}`}
+                                            title={`Interval: ${log.interval}d`}
+                                        >
+                                            {new Date(log.reviewedAt).toLocaleDateString()} · {log.score}
+                                        </span>
+                                    ))}
+                                </div>
+                            </section>
+                        )}
                         {!activeConcept.mastered && (
                             <div className="mt-8 flex justify-center">
                                 <button 
-                                    onClick={fetchDeepDive}
+                                    onClick={() => fetchDeepDive()}
                                     className="flex items-center gap-2 text-xs lg:text-sm font-mono text-slate-500 hover:text-cyan-400 transition-colors"
                                 >
-                                    <Download className="w-4 h-4" /> REQUEST_ADDITIONAL_DATA_PACKETS
+                                    <Database className="w-4 h-4" /> REQUEST_ADDITIONAL_DATA_PACKETS
                                 </button>
                             </div>
                         )}
@@ -357,29 +705,40 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
 
                 {conceptMode === 'DEEP_DIVE' && (
                     <div className="animate-in fade-in duration-300">
-                        {loadingDeepDive ? (
+                        {loadingDeepDive && !streamedDeepDive?.theoreticalUnderpinnings ? (
                             <div className="flex flex-col items-center justify-center h-64 text-purple-400">
                                 <Brain className="w-12 h-12 animate-pulse mb-4" />
-                                <p className="font-mono text-xs animate-pulse text-center">DOWNLOADING GRADUATE SCHEMATICS...</p>
+                                <p className="font-mono text-xs animate-pulse text-center">DOWNLOADING ADVANCED SCHEMATICS...</p>
                             </div>
-                        ) : deepDiveData[activeConcept.id] ? (
+                        ) : shownDeepDive ? (
                             <div className="space-y-8">
-                                <div className="p-1 bg-gradient-to-r from-purple-500/20 to-transparent rounded mb-4">
-                                    <p className="text-[10px] font-mono text-purple-300 px-2 py-1">ADVANCED KNOWLEDGE UNLOCKED</p>
+                                <div className="p-1 bg-gradient-to-r from-purple-500/20 to-transparent rounded mb-4 flex items-center justify-between">
+                                    <p className="text-[10px] font-mono text-purple-300 px-2 py-1">{loadingDeepDive ? 'RECEIVING SCHEMATICS...' : 'ADVANCED KNOWLEDGE UNLOCKED'}</p>
+                                    <button
+                                        onClick={() => fetchDeepDive({ regenerate: true })}
+                                        disabled={loadingDeepDive}
+                                        title="Discard the cached deep dive and generate a new one"
+                                        className="flex items-center gap-1 px-2 text-[10px] font-mono text-slate-500 hover:text-purple-300 disabled:opacity-30 transition-colors"
+                                    >
+                                        <RefreshCw className="w-3 h-3" /> REGENERATE
+                                    </button>
                                 </div>
                                 
                                 <section>
                                     <h4 className="font-display text-white text-lg mb-2">Theoretical Underpinnings</h4>
-                                    <p className="text-slate-300 text-sm leading-relaxed">{deepDiveData[activeConcept.id].theoreticalUnderpinnings}</p>
+                                    <p className="text-slate-300 text-sm leading-relaxed">{shownDeepDive.theoreticalUnderpinnings}</p>
+                                    {!loadingDeepDive && renderCitations(deepDiveCitations('theoreticalUnderpinnings'))}
                                 </section>
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                     <section>
                                         <h4 className="font-display text-white text-lg mb-2">Real World Application</h4>
-                                        <p className="text-slate-300 text-sm leading-relaxed">{deepDiveData[activeConcept.id].realWorldApplication}</p>
+                                        <p className="text-slate-300 text-sm leading-relaxed">{shownDeepDive.realWorldApplication}</p>
+                                        {!loadingDeepDive && renderCitations(deepDiveCitations('realWorldApplication'))}
                                     </section>
                                     <section>
                                         <h4 className="font-display text-white text-lg mb-2">Interdisciplinary Link</h4>
-                                        <p className="text-slate-300 text-sm leading-relaxed">{deepDiveData[activeConcept.id].interdisciplinaryConnection}</p>
+                                        <p className="text-slate-300 text-sm leading-relaxed">{shownDeepDive.interdisciplinaryConnection}</p>
+                                        {!loadingDeepDive && renderCitations(deepDiveCitations('interdisciplinaryConnection'))}
                                     </section>
                                 </div>
                             </div>
@@ -387,9 +746,21 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                     </div>
                 )}
 
+                {conceptMode === 'TUTOR' && (
+                    <TutorChat
+                        key={activeConcept.id}
+                        concept={activeConcept}
+                        context={conceptContext}
+                        provider={scopedProvider()}
+                        settings={settings}
+                        history={tutorChats[activeConcept.id] ?? []}
+                        onHistoryChange={(turns) => setTutorChats(prev => ({ ...prev, [activeConcept.id]: turns }))}
+                    />
+                )}
+
                 {conceptMode === 'SYNC_PROTOCOL' && (
                     <div className="animate-in zoom-in-95 duration-300 h-full flex flex-col">
-                         {loadingChallenge && !challengeQ ? (
+                         {loadingChallenge && !challenge ? (
                              <div className="flex-1 flex flex-col items-center justify-center text-cyan-400">
                                  <Cpu className="w-12 h-12 animate-spin mb-4" />
                                  <p className="font-mono text-xs text-center">GENERATING SYNCHRONIZATION CHALLENGE...</p>
@@ -401,7 +772,7 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                                         <ShieldAlert className="w-5 h-5" />
                                         <h3 className="font-display font-bold">ACTIVE RECALL CHALLENGE</h3>
                                     </div>
-                                    <p className="text-lg text-white font-tech">{challengeQ}</p>
+                                    <p className="text-lg text-white font-tech">{challenge?.question}</p>
                                 </div>
 
                                 <textarea 
@@ -412,6 +783,12 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                                     className="flex-1 w-full bg-slate-950/50 border border-slate-700 rounded-lg p-4 text-sm font-mono text-slate-300 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 resize-none transition-all"
                                 />
 
+                                {loadingChallenge && streamingFeedback && (
+                                    <div className="mt-4 p-4 rounded border bg-slate-900/50 border-slate-700 text-xs text-slate-300 animate-fade-in">
+                                        {streamingFeedback}<span className="animate-pulse text-cyan-400">▍</span>
+                                    </div>
+                                )}
+
                                 {challengeFeedback && (
                                     <div className={`mt-4 p-4 rounded border ${challengeFeedback.passed ? 'bg-green-900/20 border-green-500/30' : 'bg-red-900/20 border-red-500/30'}`}>
                                         <div className="flex items-center gap-2 mb-2">
@@ -420,11 +797,25 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                                                 {challengeFeedback.passed ? 'SYNC SUCCESSFUL' : 'SYNC FAILED'}
                                             </span>
                                         </div>
-                                        <p className="text-xs text-slate-300">{challengeFeedback.msg}</p>
+                                        <p className="text-xs text-slate-300 mb-3">{challengeFeedback.feedback} (Score: {challengeFeedback.score}/100)</p>
+                                        <GradeBreakdown result={challengeFeedback} verifiable={verifiable} onCitation={setOpenCitation} />
+                                        {unlockedTerms.length > 0 && (
+                                            <p className="mt-3 text-xs font-mono text-purple-300 flex items-center gap-2">
+                                                <Unlock className="w-3 h-3" /> NODES UNLOCKED (+{unlockedTerms.length * STABILITY_UNLOCK_BONUS}% STABILITY): {unlockedTerms.join(', ')}
+                                            </p>
+                                        )}
                                     </div>
                                 )}
 
-                                <div className="mt-4 flex justify-end">
+                                <div className="mt-4 flex justify-between items-center">
+                                    <button
+                                        onClick={() => initSyncProtocol({ regenerate: true })}
+                                        disabled={loadingChallenge}
+                                        title="Discard the cached challenge and generate a new one"
+                                        className="flex items-center gap-2 text-xs font-mono text-slate-500 hover:text-cyan-400 disabled:opacity-30 transition-colors"
+                                    >
+                                        <RefreshCw className="w-3.5 h-3.5" /> NEW CHALLENGE
+                                    </button>
                                     <button
                                         onClick={submitSyncChallenge}
                                         disabled={!challengeAnswer || loadingChallenge || (!!challengeFeedback && challengeFeedback.passed)}
@@ -444,16 +835,37 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
   };
 
   const renderSimulation = () => {
-    if (quizComplete) {
+    if (quizComplete || status === 'COLLAPSED') {
+        const collapsed = status === 'COLLAPSED';
         return (
             <div className="h-full glass-panel rounded-xl flex flex-col items-center justify-center animate-fade-in p-6 text-center">
-                <div className="w-24 h-24 bg-purple-900/20 rounded-full flex items-center justify-center mb-6 border border-purple-500/50 relative">
-                    <div className="absolute inset-0 rounded-full animate-ping bg-purple-500/10" />
-                    <Brain className="w-12 h-12 text-purple-400" />
+                <div className={`w-24 h-24 rounded-full flex items-center justify-center mb-6 border relative ${collapsed ? 'bg-red-900/20 border-red-500/50' : 'bg-purple-900/20 border-purple-500/50'}`}>
+                    <div className={`absolute inset-0 rounded-full animate-ping ${collapsed ? 'bg-red-500/10' : 'bg-purple-500/10'}`} />
+                    <Brain className={`w-12 h-12 ${collapsed ? 'text-red-400' : 'text-purple-400'}`} />
                 </div>
-                <h2 className="text-3xl font-display text-white mb-2">SIMULATION COMPLETE</h2>
-                <p className="text-slate-400 font-mono mb-8">Final Stability: {stats.stability}%</p>
+                <h2 className={`text-3xl font-display mb-2 ${collapsed ? 'text-red-400' : 'text-white'}`}>
+                    {collapsed ? 'NEURAL COLLAPSE' : status === 'WON' ? 'SYNCHRONIZATION ACHIEVED' : 'SIMULATION COMPLETE'}
+                </h2>
+                <p className="text-slate-400 font-mono mb-8">
+                    {collapsed ? 'Stability reached 0%. Reboot to run the simulation again.' : `Final Stability: ${stats.stability}%`}
+                </p>
                 <div className="flex flex-col sm:flex-row gap-4">
+                    {collapsed && (
+                        <button 
+                            onClick={rebootSimulation}
+                            className="px-8 py-3 bg-red-600 hover:bg-red-500 text-white rounded-lg font-tech tracking-wider transition-all flex items-center justify-center gap-2"
+                        >
+                            <RotateCcw className="w-4 h-4" /> REBOOT
+                        </button>
+                    )}
+                    {onComplete && (
+                        <button 
+                            onClick={onComplete}
+                            className="px-8 py-3 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-tech tracking-wider transition-all"
+                        >
+                            VIEW DEBRIEF
+                        </button>
+                    )}
                     <button 
                         onClick={() => setViewMode('DATA_CORE')}
                         className="px-8 py-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-tech tracking-wider transition-all"
@@ -485,26 +897,53 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
 
              <div className="max-w-3xl mx-auto w-full">
                  <div className="flex items-center justify-between mb-8">
-                     <span className="font-mono text-xs text-purple-400 border border-purple-500/30 px-2 py-1 rounded bg-purple-900/10">
-                         SIMULATION PHASE ACTIVE
-                     </span>
+                     <div className="flex items-center gap-2">
+                         <span className="font-mono text-xs text-purple-400 border border-purple-500/30 px-2 py-1 rounded bg-purple-900/10">
+                             SIMULATION PHASE ACTIVE
+                         </span>
+                         <button
+                            onClick={() => { setAdaptive(!adaptive); onPreferencesChange?.({ adaptive: !adaptive }); }}
+                            className={`font-mono text-xs px-2 py-1 rounded border flex items-center gap-1 transition-all ${adaptive ? 'border-cyan-500 text-cyan-300 bg-cyan-900/20' : 'border-slate-700 text-slate-500 hover:text-white'}`}
+                            title={`Adaptive: pick or generate follow-ups until stability reaches ${STABILITY_THRESHOLD_WIN}% or collapses`}
+                         >
+                             <Shuffle className="w-3 h-3" /> ADAPTIVE
+                         </button>
+                         {currentQ.sources && currentQ.sources.length > 1 && (
+                             <span
+                                className="font-mono text-xs px-2 py-1 rounded border border-amber-500/30 text-amber-300 bg-amber-900/10"
+                                title={currentQ.sources.map(id => `${id}: ${findDocument(context, id)?.fileName}`).join('\n')}
+                             >
+                                 CROSS-SOURCE {currentQ.sources.join(' × ')}
+                             </span>
+                         )}
+                     </div>
                      <span className="font-display text-xl text-slate-500">
-                         {currentQIndex + 1} / {data.questions.length}
+                         {adaptive ? `D${currentQ.difficulty} · ${attempts.length} / ${ADAPTIVE_MAX_QUESTIONS}` : `${currentQIndex + 1} / ${questions.length}`}
                      </span>
                  </div>
 
+                 {currentQ.type === QuestionType.COUNTER_THEORY && currentQ.rivalTheory && (
+                     <div className="mb-6 p-4 rounded-lg border border-amber-500/30 bg-amber-900/10">
+                         <div className="flex items-center gap-2 mb-2 text-amber-400">
+                             <ShieldAlert className="w-4 h-4" />
+                             <span className="text-xs font-tech tracking-widest uppercase">Rival Theory Detected</span>
+                         </div>
+                         <p className="text-sm text-slate-200 italic font-serif">"{currentQ.rivalTheory}"</p>
+                     </div>
+                 )}
+
                  <h3 className="text-xl lg:text-2xl font-display text-white mb-8 leading-relaxed">
                      {currentQ.question}
                  </h3>
 
                  <div className="space-y-4 mb-8">
-                     {currentQ.type === QuestionType.SOCRATIC_DEFENSE ? (
+                     {isFreeResponse ? (
                          <textarea 
-                            value={socraticInput}
-                            onChange={(e) => setSocraticInput(e.target.value)}
+                            value={freeResponse}
+                            onChange={(e) => setFreeResponse(e.target.value)}
                             disabled={!!feedback || isEvaluating}
                             className="w-full h-48 bg-slate-900/50 border border-slate-700 rounded-lg p-4 font-mono text-sm text-slate-300 focus:border-purple-500 transition-all resize-none"
-                            placeholder="Construct your argument..."
+                            placeholder={currentQ.type === QuestionType.COUNTER_THEORY ? "Dismantle the rival theory..." : "Construct your argument..."}
                         />
                      ) : (
                          currentQ.options?.map((opt, idx) => (
@@ -521,11 +960,17 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                      )}
                  </div>
 
+                 {isEvaluating && streamingFeedback && (
+                     <div className="mb-4 p-4 rounded border bg-slate-900/50 border-slate-700 text-sm text-slate-300 animate-fade-in">
+                         [EVALUATING]: {streamingFeedback}<span className="animate-pulse text-purple-400">▍</span>
+                     </div>
+                 )}
+
                  <div className="flex justify-end" ref={scrollRef}>
                      {!feedback ? (
                          <button
-                            onClick={currentQ.type === QuestionType.SOCRATIC_DEFENSE ? handleSocraticSubmit : handleChoiceSubmit}
-                            disabled={currentQ.type === QuestionType.SOCRATIC_DEFENSE ? !socraticInput : selectedOption === null}
+                            onClick={submitHandlers[currentQ.type]}
+                            disabled={isEvaluating || (isFreeResponse ? !freeResponse : selectedOption === null)}
                             className="px-8 py-3 bg-purple-600 hover:bg-purple-500 text-white rounded font-tech font-bold transition-all disabled:opacity-50"
                          >
                              {isEvaluating ? 'ANALYZING...' : 'SUBMIT ANSWER'}
@@ -533,8 +978,27 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                      ) : (
                          <div className={`w-full p-6 rounded border ${feedback.type === 'success' ? 'bg-green-900/10 border-green-500/30' : 'bg-red-900/10 border-red-500/30'}`}>
                              <p className={`mb-4 ${feedback.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{feedback.msg}</p>
-                             <button onClick={nextQuestion} className="px-6 py-2 bg-slate-800 text-white rounded hover:bg-slate-700 font-tech text-sm">
-                                 CONTINUE
+                             {feedback.grade && (
+                                 <div className="mb-4">
+                                     <GradeBreakdown result={feedback.grade} verifiable={verifiable} onCitation={setOpenCitation} />
+                                 </div>
+                             )}
+                             {feedback.grade && 'flawsIdentified' in feedback.grade && (
+                                 <div className="mb-4 space-y-1 text-xs font-mono">
+                                     {feedback.grade.flawsIdentified.length > 0 && (
+                                         <p className="text-green-300">FLAWS EXPOSED: {feedback.grade.flawsIdentified.join('; ')}</p>
+                                     )}
+                                     {feedback.grade.flawsMissed.length > 0 && (
+                                         <p className="text-red-300">FLAWS MISSED: {feedback.grade.flawsMissed.join('; ')}</p>
+                                     )}
+                                 </div>
+                             )}
+                             {currentQ.citations && currentQ.citations.length > 0 && (
+                                 <div className="mb-4">{renderCitations(currentQ.citations)}</div>
+                             )}
+                             <button onClick={nextQuestion} disabled={generatingFollowUp} className="px-6 py-2 bg-slate-800 text-white rounded hover:bg-slate-700 disabled:opacity-50 font-tech text-sm flex items-center gap-2">
+                                 {generatingFollowUp && <Loader2 className="w-4 h-4 animate-spin" />}
+                                 {generatingFollowUp ? 'GENERATING FOLLOW-UP...' : 'CONTINUE'}
                              </button>
                          </div>
                      )}
@@ -557,14 +1021,28 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
                </button>
                <button 
                   onClick={() => { setViewMode('SIMULATION'); setMobileView('FOCUS'); }}
-                  className={`px-4 lg:px-6 py-2 rounded-lg font-display text-xs lg:text-sm tracking-wider transition-all border ${viewMode === 'SIMULATION' ? 'bg-purple-950/50 border-purple-500 text-purple-400 shadow-[0_0_15px_rgba(168,85,247,0.1)]' : 'border-transparent text-slate-500 hover:text-slate-300'}`}
+                  disabled={!!generating}
+                  title={generating ? 'Questions are still being generated' : undefined}
+                  className={`px-4 lg:px-6 py-2 rounded-lg font-display text-xs lg:text-sm tracking-wider transition-all border disabled:cursor-wait ${viewMode === 'SIMULATION' ? 'bg-purple-950/50 border-purple-500 text-purple-400 shadow-[0_0_15px_rgba(168,85,247,0.1)]' : 'border-transparent text-slate-500 hover:text-slate-300'}`}
                >
-                   SIMULATION
+                   {generating ? (
+                       <span className="flex items-center gap-2">
+                           <Loader2 className="w-3 h-3 animate-spin" /> COMPILING {generating.ready}/{generating.total}
+                       </span>
+                   ) : 'SIMULATION'}
+               </button>
+           </div>
+           <div className="flex items-center gap-4 sm:gap-6">
+               {!generating && (
+                   <ExportMenu
+                       source={{ title: data.title, summary: data.summary, concepts, questions, deepDives: deepDiveData }}
+                       bundle={{ name: data.title, data, context, settings, deepDives: deepDiveData }}
+                   />
+               )}
+               <button onClick={onExit} className="text-xs font-mono text-red-500/50 hover:text-red-400 transition-colors">
+                   TERMINATE
                </button>
            </div>
-           <button onClick={onExit} className="text-xs font-mono text-red-500/50 hover:text-red-400 transition-colors">
-               TERMINATE
-           </button>
       </div>
 
       {/* Main Grid Layout */}
@@ -585,6 +1063,10 @@ const Session: React.FC<SessionProps> = ({ data, context, apiKey, onExit }) => {
               {renderFocusChamber()}
           </div>
       </div>
+
+      {openCitation && (
+          <SourceViewer context={context} citation={openCitation} onClose={() => setOpenCitation(null)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,396 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ClipboardCheck, Lock, ArrowUp, ArrowDown, Plus, Trash2, RefreshCw, Loader2, AlertTriangle, X, Circle, CheckCircle2 } from 'lucide-react';
+import { GameQuestion, GenerationSettings, InputContext, QuestionType, StudyConcept, StudySessionData } from '../types';
+import { DEFAULT_GENERATION_SETTINGS, QUESTION_TYPE_LABELS } from '../constants';
+import { regenerateConcept, regenerateQuestion } from '../services/geminiService';
+import { LLMProvider, withSignal } from '../services/llm/provider';
+import { contextForConcept } from '../services/chunker';
+import { anchorSessionCitations } from '../services/citations';
+import { tagSources } from '../services/documents';
+import { validateQuestion } from '../services/validation';
+import { describeError, isAborted } from '../services/errors';
+
+interface SessionEditorProps {
+  data: StudySessionData;
+  context: InputContext;
+  provider: LLMProvider;
+  settings?: GenerationSettings;
+  onLock: (data: StudySessionData) => void;
+  onDiscard: () => void;
+}
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+
+const blankQuestion = (type: QuestionType, difficulty: number): GameQuestion => ({
+  id: `custom-${crypto.randomUUID()}`,
+  type,
+  question: '',
+  explanation: '',
+  difficulty,
+  ...(type === QuestionType.CONCEPT_CHECK && { options: ['', '', '', ''], correctOptionIndex: 0 }),
+  ...(type === QuestionType.COUNTER_THEORY && { rivalTheory: '' })
+});
+
+// Everything that would stop the session from playing correctly. Questions are held to the same
+// rules as generated ones, and a published question may not show a blank option.
+const reviewIssues = (title: string, concepts: StudyConcept[], questions: GameQuestion[]): string[] => {
+  const issues: string[] = [];
+  if (!title.trim()) issues.push('The session needs a title');
+  concepts.forEach((c, i) => {
+    if (!c.term.trim() || !c.definition.trim()) issues.push(`Concept ${i + 1} needs a term and a definition`);
+  });
+  if (questions.length === 0) issues.push('The session needs at least one question');
+  questions.forEach((q, i) => {
+    const label = `Question ${i + 1}`;
+    if (!q.explanation.trim()) issues.push(`${label} needs an explanation`);
+    if (q.options?.some(option => !option.trim())) issues.push(`${label} has an empty option`);
+    issues.push(...validateQuestion(q, label).issues);
+  });
+  return issues;
+};
+
+const fieldClass = "w-full bg-slate-950/60 border border-slate-700 rounded px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-cyan-500/50";
+const iconButtonClass = "p-1.5 rounded border border-slate-700 text-slate-400 hover:text-white disabled:opacity-30 disabled:hover:text-slate-400";
+
+const FieldLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <span className="block mb-1 text-[10px] font-mono text-slate-500 uppercase tracking-wider">{children}</span>
+);
+
+// Instructor mode: generated content is reviewed, corrected and locked before students see it
+const SessionEditor: React.FC<SessionEditorProps> = ({ data, context, provider, settings = DEFAULT_GENERATION_SETTINGS, onLock, onDiscard }) => {
+  const [title, setTitle] = useState(data.title);
+  const [summary, setSummary] = useState(data.summary);
+  const [concepts, setConcepts] = useState<StudyConcept[]>(data.concepts);
+  const [questions, setQuestions] = useState<GameQuestion[]>(data.questions);
+  const [tab, setTab] = useState<'CONCEPTS' | 'QUESTIONS'>('CONCEPTS');
+  const [pending, setPending] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Regenerations still in flight when the editor is left are cancelled
+  const requestsRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    requestsRef.current = controller;
+    return () => controller.abort();
+  }, []);
+  const scopedProvider = () => requestsRef.current ? withSignal(provider, requestsRef.current.signal) : provider;
+
+  const issues = useMemo(() => reviewIssues(title, concepts, questions), [title, concepts, questions]);
+
+  // Regenerated items are anchored and tagged by source exactly like the generated session was
+  const finalize = (items: Pick<StudySessionData, 'concepts' | 'questions'>) =>
+    tagSources(anchorSessionCitations({ ...data, ...items }, context), context);
+
+  const runRegeneration = async (key: string, task: () => Promise<void>, fallback: string) => {
+    setPending(prev => [...prev, key]);
+    setError(null);
+    try {
+        await task();
+    } catch (e) {
+        if (isAborted(e)) return;
+        console.error(e);
+        setError(describeError(e, fallback));
+    } finally {
+        setPending(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  const updateConcept = (id: string, patch: Partial<StudyConcept>) =>
+    setConcepts(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const handleRegenerateConcept = (concept: StudyConcept) => runRegeneration(`concept:${concept.id}`, async () => {
+    const otherTerms = concepts.filter(c => c.id !== concept.id).map(c => c.term);
+    const rewritten = await regenerateConcept(concept, otherTerms, contextForConcept(context, concept, data.sourceChunks), scopedProvider(), settings);
+    const [finalized] = finalize({ concepts: [rewritten], questions: [] }).concepts;
+    setConcepts(prev => prev.map(c => c.id === concept.id ? finalized : c));
+  }, `Could not regenerate "${concept.term}". Try again.`);
+
+  const updateQuestion = (id: string, patch: Partial<GameQuestion>) =>
+    setQuestions(prev => prev.map(q => q.id === id ? { ...q, ...patch } : q));
+
+  const handleRegenerateQuestion = (question: GameQuestion, index: number) => runRegeneration(`question:${question.id}`, async () => {
+    const replacement = await regenerateQuestion(question, context, scopedProvider(), settings);
+    const [finalized] = finalize({ concepts: [], questions: [replacement] }).questions;
+    setQuestions(prev => prev.map(q => q.id === question.id ? finalized : q));
+  }, `Could not regenerate question ${index + 1}. Try again.`);
+
+  const moveQuestion = (index: number, delta: number) => setQuestions(prev => {
+    const target = index + delta;
+    if (target < 0 || target >= prev.length) return prev;
+    const next = [...prev];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+  });
+
+  const deleteQuestion = (id: string) => setQuestions(prev => prev.filter(q => q.id !== id));
+
+  const addQuestion = (type: QuestionType) => {
+    setQuestions(prev => [...prev, blankQuestion(type, settings.difficulty)]);
+    setTab('QUESTIONS');
+  };
+
+  const setOption = (question: GameQuestion, index: number, value: string) =>
+    updateQuestion(question.id, { options: question.options!.map((o, i) => i === index ? value : o) });
+
+  // Keeps correctOptionIndex on the same answer when an option above it is removed
+  const removeOption = (question: GameQuestion, index: number) => {
+    const correct = question.correctOptionIndex ?? 0;
+    updateQuestion(question.id, {
+        options: question.options!.filter((_, i) => i !== index),
+        correctOptionIndex: index < correct ? correct - 1 : index === correct ? 0 : correct
+    });
+  };
+
+  const handleLock = () => {
+    if (issues.length > 0 || pending.length > 0) return;
+    onLock({
+        ...data,
+        title: title.trim(),
+        summary: summary.trim(),
+        concepts: concepts.map(c => ({ ...c, term: c.term.trim(), definition: c.definition.trim(), analogy: c.analogy.trim() })),
+        // Trimmed in place rather than re-validated, which would drop the anchored citation offsets
+        questions: questions.map(q => ({
+            ...q,
+            question: q.question.trim(),
+            explanation: q.explanation.trim(),
+            rivalTheory: q.rivalTheory?.trim() || undefined,
+            options: q.options?.map(o => o.trim())
+        })),
+        vettedAt: Date.now()
+    });
+  };
+
+  const handleDiscard = () => {
+    if (!confirm("Discard this generated session? Nothing will be saved.")) return;
+    onDiscard();
+  };
+
+  const isPending = (key: string) => pending.includes(key);
+
+  const renderConcept = (concept: StudyConcept, index: number) => {
+    const busy = isPending(`concept:${concept.id}`);
+    return (
+      <div key={concept.id} className={`glass-panel rounded-xl p-4 space-y-3 transition-opacity ${busy ? 'opacity-60' : ''}`}>
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] font-mono text-slate-500">
+            NODE {String(index + 1).padStart(2, '0')}
+            {concept.sources && concept.sources.length > 0 && ` · ${concept.sources.join(' ')}`}
+            {` · ${concept.citations?.length ?? 0} CITATIONS`}
+          </span>
+          <button
+            onClick={() => handleRegenerateConcept(concept)}
+            disabled={busy}
+            className={iconButtonClass}
+            title="Regenerate definition and analogy"
+          >
+            {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+        <label className="block">
+          <FieldLabel>Term</FieldLabel>
+          <input value={concept.term} disabled={busy} onChange={(e) => updateConcept(concept.id, { term: e.target.value })} className={`${fieldClass} font-display`} />
+        </label>
+        <label className="block">
+          <FieldLabel>Definition</FieldLabel>
+          <textarea value={concept.definition} disabled={busy} rows={3} onChange={(e) => updateConcept(concept.id, { definition: e.target.value })} className={`${fieldClass} resize-y custom-scrollbar`} />
+        </label>
+        <label className="block">
+          <FieldLabel>Analogy</FieldLabel>
+          <textarea value={concept.analogy} disabled={busy} rows={2} onChange={(e) => updateConcept(concept.id, { analogy: e.target.value })} className={`${fieldClass} resize-y custom-scrollbar`} />
+        </label>
+      </div>
+    );
+  };
+
+  const renderQuestion = (question: GameQuestion, index: number) => {
+    const busy = isPending(`question:${question.id}`);
+    const freeResponse = question.type !== QuestionType.CONCEPT_CHECK;
+    return (
+      <div key={question.id} className={`glass-panel rounded-xl p-4 space-y-3 transition-opacity ${busy ? 'opacity-60' : ''}`}>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] font-mono text-slate-500">
+            Q{String(index + 1).padStart(2, '0')} · <span className="text-purple-400">{QUESTION_TYPE_LABELS[question.type].toUpperCase()}</span>
+            {question.sources && question.sources.length > 0 && ` · ${question.sources.join(' × ')}`}
+            {question.id.startsWith('custom-') && <span className="text-amber-400"> · INSTRUCTOR</span>}
+          </span>
+          <div className="flex items-center gap-1">
+            <label className="flex items-center gap-1 text-[10px] font-mono text-slate-500 mr-2">
+              D
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={question.difficulty}
+                disabled={busy}
+                onChange={(e) => updateQuestion(question.id, { difficulty: Math.max(1, Math.min(10, Number(e.target.value) || 1)) })}
+                className="w-12 bg-slate-950/60 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500/50"
+              />
+            </label>
+            <button onClick={() => moveQuestion(index, -1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+              <ArrowUp className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1} className={iconButtonClass} title="Move down">
+              <ArrowDown className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => handleRegenerateQuestion(question, index)} disabled={busy} className={iconButtonClass} title="Regenerate this question">
+              {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+            </button>
+            <button onClick={() => deleteQuestion(question.id)} disabled={busy} className={`${iconButtonClass} hover:text-red-400`} title="Delete question">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        <label className="block">
+          <FieldLabel>Question</FieldLabel>
+          <textarea value={question.question} disabled={busy} rows={2} onChange={(e) => updateQuestion(question.id, { question: e.target.value })} className={`${fieldClass} resize-y custom-scrollbar`} />
+        </label>
+
+        {question.type === QuestionType.COUNTER_THEORY && (
+          <label className="block">
+            <FieldLabel>Rival theory</FieldLabel>
+            <textarea value={question.rivalTheory ?? ''} disabled={busy} rows={2} onChange={(e) => updateQuestion(question.id, { rivalTheory: e.target.value })} className={`${fieldClass} resize-y custom-scrollbar`} />
+          </label>
+        )}
+
+        {question.type === QuestionType.CONCEPT_CHECK && question.options && (
+          <div>
+            <FieldLabel>Options · mark the correct answer</FieldLabel>
+            <div className="space-y-1.5">
+              {question.options.map((option, i) => {
+                const correct = i === question.correctOptionIndex;
+                return (
+                  <div key={i} className="flex items-center gap-2">
+                    <button
+                      onClick={() => updateQuestion(question.id, { correctOptionIndex: i })}
+                      disabled={busy}
+                      className={correct ? 'text-green-400' : 'text-slate-600 hover:text-slate-400'}
+                      title={correct ? 'Correct answer' : 'Mark as correct'}
+                    >
+                      {correct ? <CheckCircle2 className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                    </button>
+                    <input
+                      value={option}
+                      disabled={busy}
+                      onChange={(e) => setOption(question, i, e.target.value)}
+                      placeholder={`Option ${String.fromCharCode(65 + i)}`}
+                      className={`${fieldClass} py-1.5 ${correct ? 'border-green-500/40' : ''}`}
+                    />
+                    <button
+                      onClick={() => removeOption(question, i)}
+                      disabled={busy || question.options!.length <= MIN_OPTIONS}
+                      className="p-1 text-slate-600 hover:text-slate-300 disabled:opacity-30"
+                      title="Remove option"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            {question.options.length < MAX_OPTIONS && (
+              <button
+                onClick={() => updateQuestion(question.id, { options: [...question.options!, ''] })}
+                disabled={busy}
+                className="mt-2 flex items-center gap-1 text-[10px] font-mono text-cyan-500 hover:text-cyan-300"
+              >
+                <Plus className="w-3 h-3" /> ADD OPTION
+              </button>
+            )}
+          </div>
+        )}
+
+        <label className="block">
+          <FieldLabel>Explanation</FieldLabel>
+          <textarea value={question.explanation} disabled={busy} rows={3} onChange={(e) => updateQuestion(question.id, { explanation: e.target.value })} className={`${fieldClass} resize-y custom-scrollbar`} />
+        </label>
+
+        {freeResponse && (
+          <p className="text-[10px] font-mono text-slate-500">
+            {question.rubric && question.rubric.keyPoints.length > 0
+                ? `RUBRIC: ${question.rubric.keyPoints.map(kp => kp.description).join(' · ')}`
+                : 'NO RUBRIC · graded against the generic accuracy / depth / reasoning rubric. Regenerate to get a specific one.'}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto animate-fade-in">
+      <div className="glass-panel rounded-xl p-6 border-l-4 border-amber-500 space-y-3">
+        <div className="flex items-center gap-2 text-xs font-tech text-amber-400 tracking-widest">
+          <ClipboardCheck className="w-4 h-4" /> INSTRUCTOR REVIEW
+        </div>
+        <input value={title} onChange={(e) => setTitle(e.target.value)} className={`${fieldClass} font-display text-lg font-bold text-white`} />
+        <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={2} className={`${fieldClass} font-mono text-xs resize-y custom-scrollbar`} />
+      </div>
+
+      <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          {(['CONCEPTS', 'QUESTIONS'] as const).map(name => (
+            <button
+              key={name}
+              onClick={() => setTab(name)}
+              className={`px-4 py-1.5 rounded border font-tech text-xs tracking-wider transition-all ${tab === name ? 'border-cyan-500 text-cyan-300 bg-cyan-900/20' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              {name} ({name === 'CONCEPTS' ? concepts.length : questions.length})
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => addQuestion(type)}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-[10px] font-mono text-slate-400 hover:text-cyan-300 hover:border-cyan-500/50"
+            >
+              <Plus className="w-3 h-3" /> {QUESTION_TYPE_LABELS[type].toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-900/20 border border-red-500/50 rounded-lg text-red-200 text-sm">{error}</div>
+      )}
+
+      <div className="mt-4 space-y-4">
+        {tab === 'CONCEPTS' ? concepts.map(renderConcept) : questions.map(renderQuestion)}
+        {tab === 'QUESTIONS' && questions.length === 0 && (
+          <p className="text-center text-sm font-mono text-slate-500 py-8">No questions. Add one of your own above.</p>
+        )}
+      </div>
+
+      <div className="sticky bottom-4 mt-6 glass-panel rounded-xl p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4 border border-slate-700/50">
+        <div className="text-xs font-mono min-w-0">
+          {issues.length > 0 ? (
+            <span className="flex items-start gap-2 text-amber-300" title={issues.join('\n')}>
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span className="truncate">{issues[0]}{issues.length > 1 && ` (+${issues.length - 1} more)`}</span>
+            </span>
+          ) : (
+            <span className="text-slate-500">{concepts.length} CONCEPTS · {questions.length} QUESTIONS · READY TO LOCK</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3 shrink-0">
+          <button onClick={handleDiscard} className="text-xs font-mono text-slate-500 hover:text-red-400 transition-colors">
+            DISCARD
+          </button>
+          <button
+            onClick={handleLock}
+            disabled={issues.length > 0 || pending.length > 0}
+            className={`flex items-center gap-2 px-5 py-2 rounded-lg font-tech font-bold tracking-wider transition-all ${issues.length === 0 && pending.length === 0
+                ? 'bg-gradient-to-r from-amber-600 to-orange-600 text-white shadow-lg shadow-amber-900/40 hover:scale-105'
+                : 'bg-slate-800 text-slate-600 cursor-not-allowed'}`}
+          >
+            <Lock className="w-4 h-4" /> LOCK AS VETTED
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionEditor;
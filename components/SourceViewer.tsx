@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { X, FileText, AlertTriangle, Quote } from 'lucide-react';
+import { InputContext, SourceCitation } from '../types';
+import { isVerified } from '../services/citations';
+import { findDocument, isVerifiable } from '../services/documents';
+
+interface SourceViewerProps {
+  context: InputContext;
+  citation: SourceCitation;
+  onClose: () => void;
+}
+
+// Characters shown either side of the highlight; rendering a whole paper as one node is sluggish
+const CONTEXT_CHARS = 4000;
+
+const base64ToBlobUrl = (data: string, mimeType: string) => {
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+};
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ context, citation, onClose }) => {
+  const highlightRef = useRef<HTMLElement>(null);
+  const verified = isVerified(citation);
+
+  // In a multi-document set, quotes from an attached file open that file
+  const sourceDocument = findDocument(context, citation.source);
+  const file = sourceDocument?.type === 'file' ? { data: sourceDocument.data!, mimeType: sourceDocument.mimeType! }
+    : context.type === 'file' && context.mimeType ? { data: context.content, mimeType: context.mimeType } : null;
+  const fileUrl = useMemo(
+    () => file ? base64ToBlobUrl(file.data, file.mimeType) : null,
+    [context, sourceDocument]
+  );
+  useEffect(() => () => { if (fileUrl) URL.revokeObjectURL(fileUrl); }, [fileUrl]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [citation]);
+
+  const renderText = () => {
+    if (!verified) {
+      return (
+        <p className="text-slate-400 font-mono text-xs whitespace-pre-wrap">
+          {context.content.substring(0, CONTEXT_CHARS)}
+          {context.content.length > CONTEXT_CHARS && '…'}
+        </p>
+      );
+    }
+    const from = Math.max(0, citation.start! - CONTEXT_CHARS);
+    const to = Math.min(context.content.length, citation.end! + CONTEXT_CHARS);
+    return (
+      <p className="text-slate-400 font-mono text-xs whitespace-pre-wrap leading-relaxed">
+        {from > 0 && '…'}
+        {context.content.slice(from, citation.start)}
+        <mark ref={highlightRef} className="bg-cyan-500/30 text-cyan-100 rounded px-0.5">
+          {context.content.slice(citation.start, citation.end)}
+        </mark>
+        {context.content.slice(citation.end, to)}
+        {to < context.content.length && '…'}
+      </p>
+    );
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-50 w-full md:w-[36rem] glass-panel border-l border-cyan-500/30 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="h-14 shrink-0 flex items-center justify-between px-4 border-b border-slate-800">
+        <span className="flex items-center gap-2 text-xs font-tech text-cyan-400 tracking-widest uppercase">
+          <FileText className="w-4 h-4" /> Source Artifact
+          {sourceDocument && <span className="text-slate-500 normal-case truncate max-w-[14rem]">· {sourceDocument.fileName}</span>}
+          {citation.page && <span className="text-slate-500">· PAGE {citation.page}</span>}
+        </span>
+        <button onClick={onClose} className="p-2 text-slate-500 hover:text-white" title="Close source">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 border-b border-slate-800 shrink-0">
+        <div className="flex items-start gap-2">
+          <Quote className="w-4 h-4 text-purple-400 shrink-0 mt-0.5" />
+          <p className="text-sm text-slate-200 italic font-serif">{citation.quote}</p>
+        </div>
+        {isVerifiable(citation, context) && !verified && (
+          <p className="mt-3 flex items-center gap-2 text-[10px] font-mono text-amber-400">
+            <AlertTriangle className="w-3 h-3" /> QUOTE NOT FOUND IN ARTIFACT. TREAT THIS CLAIM AS UNVERIFIED.
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+        {fileUrl && file?.mimeType.startsWith('image/') ? (
+          <img src={fileUrl} alt="Source artifact" className="w-full rounded border border-slate-800" />
+        ) : fileUrl ? (
+          <iframe
+            key={citation.page}
+            src={`${fileUrl}${citation.page ? `#page=${citation.page}` : ''}`}
+            title="Source artifact"
+            className="w-full h-full min-h-[60vh] rounded border border-slate-800 bg-white"
+          />
+        ) : renderText()}
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bot, User, Send, Lightbulb, Sparkles, HelpCircle, Loader2 } from 'lucide-react';
+import { ChatTurn, GenerationSettings, InputContext, StudyConcept, TutorAction } from '../types';
+import { streamTutorReply, TUTOR_ACTION_PROMPTS } from '../services/geminiService';
+import { LLMProvider, withSignal } from '../services/llm/provider';
+import { describeError, isAborted } from '../services/errors';
+
+interface TutorChatProps {
+  concept: StudyConcept;
+  context: InputContext;
+  provider: LLMProvider;
+  settings?: GenerationSettings;
+  history: ChatTurn[];
+  onHistoryChange: (history: ChatTurn[]) => void;
+}
+
+const QUICK_ACTIONS: { action: TutorAction; label: string; icon: React.ElementType }[] = [
+  { action: 'HINT', label: 'HINT', icon: Lightbulb },
+  { action: 'SIMPLER_ANALOGY', label: 'SIMPLER ANALOGY', icon: Sparkles },
+  { action: 'QUIZ_ME', label: 'QUIZ ME', icon: HelpCircle }
+];
+
+const TutorChat: React.FC<TutorChatProps> = ({ concept, context, provider, settings, history, onHistoryChange }) => {
+  const [input, setInput] = useState('');
+  const [streaming, setStreaming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Cancel the reply in flight once the student has moved to another concept
+  const requestsRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    requestsRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [history, streaming]);
+
+  const send = async (text: string) => {
+    if (!text.trim() || streaming !== null) return;
+    const turns: ChatTurn[] = [...history, { role: 'user', text: text.trim() }];
+    onHistoryChange(turns);
+    setInput('');
+    setError(null);
+    setStreaming('');
+
+    const signal = requestsRef.current?.signal;
+    const scoped = signal ? withSignal(provider, signal) : provider;
+    let reply = '';
+    try {
+      for await (const chunk of streamTutorReply(concept, turns, context, scoped, settings)) {
+        reply += chunk;
+        setStreaming(reply);
+      }
+      onHistoryChange([...turns, { role: 'model', text: reply }]);
+    } catch (e) {
+      // Keep whatever arrived before the stream broke. With no reply at all the question is taken
+      // back out of the history, so the transcript never holds two user turns in a row.
+      if (reply) onHistoryChange([...turns, { role: 'model', text: reply }]);
+      else onHistoryChange(history);
+      if (isAborted(e) || signal?.aborted) return;
+      console.error(e);
+      if (!reply) setInput(text.trim());
+      setError(describeError(e, "Tutor link interrupted. Try again."));
+    } finally {
+      if (!signal?.aborted) setStreaming(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    send(input);
+  };
+
+  const renderTurn = (turn: ChatTurn, key: React.Key) => (
+    <div key={key} className={`flex gap-3 ${turn.role === 'user' ? 'flex-row-reverse' : ''}`}>
+      <div className={`w-7 h-7 shrink-0 rounded-full flex items-center justify-center border ${turn.role === 'user' ? 'bg-slate-800 border-slate-600 text-slate-300' : 'bg-emerald-900/30 border-emerald-500/50 text-emerald-400'}`}>
+        {turn.role === 'user' ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
+      </div>
+      <div className={`max-w-[80%] p-3 rounded-lg text-sm leading-relaxed whitespace-pre-wrap ${turn.role === 'user' ? 'bg-slate-800/80 text-slate-200' : 'bg-emerald-900/10 border border-emerald-500/20 text-slate-300'}`}>
+        {turn.text}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="animate-in slide-in-from-bottom-2 duration-300 h-full flex flex-col">
+      <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar space-y-4 pr-2 min-h-[12rem]">
+        {history.length === 0 && streaming === null && (
+          <div className="h-full flex flex-col items-center justify-center text-center text-slate-500">
+            <Bot className="w-10 h-10 mb-3 text-emerald-500/60" />
+            <p className="font-mono text-xs">TUTOR ONLINE. ASK ANYTHING ABOUT "{concept.term.toUpperCase()}".</p>
+          </div>
+        )}
+        {history.map((turn, i) => renderTurn(turn, i))}
+        {streaming !== null && (
+          streaming
+            ? renderTurn({ role: 'model', text: streaming }, 'streaming')
+            : <div className="flex items-center gap-2 text-emerald-400 font-mono text-xs"><Loader2 className="w-4 h-4 animate-spin" /> TUTOR IS THINKING...</div>
+        )}
+        {error && <p className="text-xs font-mono text-red-400">{error}</p>}
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-2">
+        {QUICK_ACTIONS.map(({ action, label, icon: Icon }) => (
+          <button
+            key={action}
+            onClick={() => send(TUTOR_ACTION_PROMPTS[action])}
+            disabled={streaming !== null}
+            className="px-3 py-1.5 rounded border border-emerald-500/30 bg-emerald-900/10 text-emerald-300 hover:bg-emerald-900/30 disabled:opacity-40 text-[10px] font-tech tracking-wider flex items-center gap-1.5 transition-all"
+          >
+            <Icon className="w-3 h-3" /> {label}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+        <input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Ask the tutor..."
+          className="flex-1 bg-slate-950/50 border border-slate-700 rounded-lg px-4 py-2 text-sm font-mono text-slate-300 focus:border-emerald-500 focus:ring-1 focus:ring-emerald-500 transition-all"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || streaming !== null}
+          className="px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-all"
+        >
+          {streaming !== null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default TutorChat;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip } from 'recharts';
 import { PlayerStats } from '../types';
+import { streakMultiplier } from '../services/rules';
 import { Activity, Zap } from 'lucide-react';
 
 interface VisualizerProps {
@@ -31,6 +32,9 @@ const Visualizer: React.FC<VisualizerProps> = ({ stats, history }) => {
                 <span className="font-display text-sm">SYNC COUNT</span>
              </div>
              <p className="font-tech text-2xl font-bold text-white">{stats.syncedNodes}</p>
+             {stats.streak > 1 && (
+                <p className="font-mono text-[10px] text-amber-400">STREAK {stats.streak} · ×{streakMultiplier(stats.streak).toFixed(1)}</p>
+             )}
         </div>
       </div>
 
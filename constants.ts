@@ -1,3 +1,5 @@
+import { AudienceLevel, GenerationSettings, LearnerPreferences, QuestionType } from './types';
+
 export const APP_NAME = "NEURAL NEXUS";
 export const APP_VERSION = "v2.5.0-alpha";
 
@@ -5,5 +7,62 @@ export const APP_VERSION = "v2.5.0-alpha";
 export const STABILITY_THRESHOLD_WIN = 90;
 export const STABILITY_PENALTY = 15;
 export const STABILITY_BONUS = 10;
+export const STABILITY_INITIAL = 50;
+// Each consecutive success adds 10% to rewards, up to 1.5x
+export const STREAK_MULTIPLIER_STEP = 0.1;
+export const STREAK_MULTIPLIER_CAP = 1.5;
+// Free-response answers take more effort than multiple choice
+export const FREE_RESPONSE_MULTIPLIER = 1.5;
+// Stability leaks while the student is away, but idle time alone never causes a collapse
+export const IDLE_GRACE_MS = 5 * 60 * 1000;
+export const IDLE_DECAY_PER_HOUR = 6;
+export const IDLE_DECAY_FLOOR = 20;
+// Awarded per concept whose prerequisites become fully synchronized in learning-path mode
+export const STABILITY_UNLOCK_BONUS = 5;
+
+// Single pass mark for every graded free-response answer (0-100)
+export const PASS_THRESHOLD = 70;
+
+export const AUDIENCE_LABELS: Record<AudienceLevel, string> = {
+  HIGH_SCHOOL: 'High School Students',
+  UNDERGRADUATE: 'Undergraduate Students',
+  GRADUATE: 'Graduate Students',
+  EXPERT: 'Domain Experts'
+};
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  [QuestionType.CONCEPT_CHECK]: 'Concept Check',
+  [QuestionType.SOCRATIC_DEFENSE]: 'Socratic Defense',
+  [QuestionType.COUNTER_THEORY]: 'Counter Theory'
+};
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  conceptCount: 7,
+  questionMix: {
+    [QuestionType.CONCEPT_CHECK]: 2,
+    [QuestionType.SOCRATIC_DEFENSE]: 1,
+    [QuestionType.COUNTER_THEORY]: 1
+  },
+  audience: 'GRADUATE',
+  difficulty: 7,
+  language: 'English'
+};
+
+export const DEFAULT_PREFERENCES: LearnerPreferences = {
+  generation: DEFAULT_GENERATION_SETTINGS,
+  instructorReview: false,
+  adaptive: false,
+  learningPath: false,
+  gatePrerequisites: false
+};
+
+// Owner of sessions saved before profiles existed; created on first run
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const GENERATION_LIMITS = {
+  conceptCount: { min: 3, max: 15 },
+  questionsPerType: { min: 0, max: 8 },
+  difficulty: { min: 1, max: 10 }
+};
 
 export const SAMPLE_TEXT = `Quantum entanglement is a physical phenomenon that occurs when a group of particles are generated, interact, or share spatial proximity in a way such that the quantum state of each particle of the group cannot be described independently of the state of the others, including when the particles are separated by a large distance. The topic of quantum entanglement is at the heart of the disparity between classical and quantum physics: entanglement is a primary feature of quantum mechanics not present in classical mechanics.`;
\ No newline at end of file
@@ -0,0 +1,143 @@
+import type { Connect, Plugin } from 'vite';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import https from 'https';
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Local proxy behind the "paste a URL" ingest option. The browser can't read most pages or
+// files cross-origin, so the dev/preview server downloads them and passes the bytes through.
+const PROXY_PATH = '/api/fetch';
+const MAX_BYTES = 25 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const TIMEOUT_MS = 20000;
+
+// Keep the proxy from being pointed back at the machine or its local network. IPv4 ranges also
+// cover their IPv4-mapped IPv6 forms (::ffff:127.0.0.1). IPv4-compatible (::/96, which includes
+// :: and ::1) and 6to4 (2002::/16) addresses embed an IPv4 address, so both are blocked outright.
+const blocked = new BlockList();
+([
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const).forEach(([network, prefix]) => blocked.addSubnet(network, prefix, 'ipv4'));
+([
+    ['::', 96], ['2002::', 16], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([network, prefix]) => blocked.addSubnet(network, prefix, 'ipv6'));
+
+const isPrivateAddress = (address: string) => {
+    const family = isIP(address);
+    return family === 0 || blocked.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+class BlockedAddressError extends Error {}
+class TooLargeError extends Error {}
+
+// Every address a host resolves to is checked when the socket connects, so a DNS answer can't
+// slip a private address in after the URL was validated
+const guardedLookup = (
+    hostname: string,
+    options: LookupOptions,
+    callback: (err: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) => {
+    dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+        if (err) return callback(err, '');
+        if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+            return callback(new BlockedAddressError(), '');
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+// IP literals never go through the lookup, so they are checked before connecting
+const isPrivateLiteral = (url: URL) => {
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    return isIP(host) !== 0 && isPrivateAddress(host);
+};
+
+// One GET; redirects are returned to the caller so each hop is validated
+const get = (url: URL, signal: AbortSignal) => new Promise<IncomingMessage>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client.get(url, {
+        lookup: guardedLookup,
+        signal,
+        headers: { 'User-Agent': 'NeuralNexus/1.0 (course material import)' }
+    }, resolve).on('error', reject);
+});
+
+// Reads the body incrementally and gives up as soon as it passes MAX_BYTES
+const readBody = (response: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BYTES) return response.destroy(new TooLargeError());
+        chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks)));
+    response.on('error', reject);
+    response.on('close', () => reject(new Error('Connection closed before the body was complete')));
+});
+
+const fail = (res: ServerResponse, status: number, message: string) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.end(message);
+};
+
+const handle = async (req: Connect.IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') return fail(res, 405, 'Only GET is supported');
+    let target: URL;
+    try {
+        target = new URL(new URL(req.url ?? '', 'http://proxy.local').searchParams.get('url') ?? '');
+    } catch {
+        return fail(res, 400, 'Missing or invalid url parameter');
+    }
+
+    const signal = AbortSignal.timeout(TIMEOUT_MS);
+    try {
+        for (let hop = 0; ; hop++) {
+            if (target.protocol !== 'http:' && target.protocol !== 'https:') return fail(res, 400, 'Only http and https URLs are allowed');
+            if (isPrivateLiteral(target)) return fail(res, 403, 'Local and private network addresses are not allowed');
+            const upstream = await get(target, signal);
+            const status = upstream.statusCode ?? 0;
+            const location = upstream.headers.location;
+            if (status >= 300 && status < 400 && location) {
+                upstream.resume();
+                if (hop >= MAX_REDIRECTS) return fail(res, 502, 'Site redirected too many times');
+                try {
+                    target = new URL(location, target);
+                } catch {
+                    return fail(res, 502, 'Site sent an invalid redirect');
+                }
+                continue;
+            }
+            if (status < 200 || status >= 300) {
+                upstream.resume();
+                return fail(res, 502, `Site responded with ${status} ${upstream.statusMessage ?? ''}`.trim());
+            }
+            if (Number(upstream.headers['content-length'] ?? 0) > MAX_BYTES) {
+                upstream.destroy();
+                return fail(res, 413, 'File is larger than 25 MB');
+            }
+            const body = await readBody(upstream);
+            res.setHeader('Content-Type', upstream.headers['content-type'] ?? 'application/octet-stream');
+            return res.end(body);
+        }
+    } catch (e) {
+        if (e instanceof BlockedAddressError) return fail(res, 403, 'Local and private network addresses are not allowed');
+        if (e instanceof TooLargeError) return fail(res, 413, 'File is larger than 25 MB');
+        fail(res, 504, signal.aborted ? `No response within ${TIMEOUT_MS / 1000}s` : 'Site could not be reached');
+    }
+};
+
+const middleware: Connect.NextHandleFunction = (req, res) => void handle(req, res);
+
+export const fetchProxy = (): Plugin => ({
+    name: 'neural-nexus-fetch-proxy',
+    configureServer: server => {
+        server.middlewares.use(PROXY_PATH, middleware);
+    },
+    configurePreviewServer: server => {
+        server.middlewares.use(PROXY_PATH, middleware);
+    }
+});
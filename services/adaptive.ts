@@ -0,0 +1,50 @@
+import { GameQuestion, QuestionAttempt, QuestionType, StudyConcept } from "../types";
+import { mentions } from "./debrief";
+
+// Hard stop in case stability oscillates around the middle forever
+export const ADAPTIVE_MAX_QUESTIONS = 20;
+
+const clampDifficulty = (difficulty: number) => Math.max(1, Math.min(10, Math.round(difficulty)));
+
+// One step up after a pass, one step down after a miss
+export const nextDifficulty = (question: GameQuestion, passed: boolean) =>
+    clampDifficulty(question.difficulty + (passed ? 1 : -1));
+
+// Concepts with the most missed questions first; ties keep generation order
+export const missedConcepts = (questions: GameQuestion[], attempts: QuestionAttempt[], concepts: StudyConcept[]): StudyConcept[] => {
+    const missed = attempts
+        .filter(a => !a.passed)
+        .map(a => questions.find(q => q.id === a.questionId))
+        .filter((q): q is GameQuestion => !!q);
+    return concepts
+        .map(concept => ({ concept, misses: missed.filter(q => mentions(q, concept)).length }))
+        .filter(entry => entry.misses > 0)
+        .sort((a, b) => b.misses - a.misses)
+        .map(entry => entry.concept);
+};
+
+// Picks the unanswered question closest to the target difficulty, preferring ones that cover a missed concept.
+// Returns undefined when nothing suitable is left and a follow-up should be generated instead.
+export const pickNextQuestion = (
+    questions: GameQuestion[],
+    attempts: QuestionAttempt[],
+    targetDifficulty: number,
+    weakConcepts: StudyConcept[]
+): GameQuestion | undefined => {
+    const answered = new Set(attempts.map(a => a.questionId));
+    const candidates = questions.filter(q => !answered.has(q.id));
+    const targetsWeakness = (q: GameQuestion) => weakConcepts.some(c => mentions(q, c));
+    const ranked = candidates
+        .filter(q => weakConcepts.length === 0 || targetsWeakness(q))
+        .sort((a, b) => Math.abs(a.difficulty - targetDifficulty) - Math.abs(b.difficulty - targetDifficulty));
+    // A remaining question more than two steps off target is a poor fit; a fresh follow-up serves better
+    return ranked.find(q => Math.abs(q.difficulty - targetDifficulty) <= 2);
+};
+
+// Free-response follow-ups probe a weak concept harder; multiple choice rebuilds confidence
+export const followUpType = (passed: boolean): QuestionType =>
+    passed ? QuestionType.SOCRATIC_DEFENSE : QuestionType.CONCEPT_CHECK;
+
+// Follow-ups go to the weakest concept, otherwise to the first one not yet synchronized
+export const followUpConcept = (concepts: StudyConcept[], weakConcepts: StudyConcept[], askedCount: number): StudyConcept =>
+    weakConcepts[0] ?? concepts.find(c => !c.mastered) ?? concepts[askedCount % concepts.length];
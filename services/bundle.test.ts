@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLE_FORMAT, BUNDLE_VERSION, BundleError, createBundle, matchesSource, parseBundle, validateSessionData } from './bundle';
+import { InputContext, QuestionType, StudySessionData } from '../types';
+
+const data = (): StudySessionData => ({
+    title: 'Cells',
+    summary: 'About cells',
+    concepts: [{ id: 'c1', term: 'Cell', definition: 'Unit of life', analogy: 'A brick', mastered: true }],
+    questions: [{
+        id: 'q1', type: QuestionType.CONCEPT_CHECK, question: 'What is a cell?', explanation: 'The unit of life',
+        difficulty: 3, options: ['A unit', 'A tissue'], correctOptionIndex: 0
+    }]
+});
+
+const context: InputContext = { type: 'text', content: 'Cells are the unit of life.' };
+
+const bundleJson = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+    format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: 0, name: 'Shared', data: data(),
+    source: { hash: 'abc', type: 'text' }, ...overrides
+});
+
+const errorOf = (run: () => unknown) => {
+    try {
+        run();
+    } catch (e) {
+        return e instanceof BundleError ? e.message : e;
+    }
+    return null;
+};
+
+describe('validateSessionData', () => {
+    it('accepts a well-formed session', () => {
+        expect(validateSessionData(data()).questions).toHaveLength(1);
+    });
+
+    it('requires concepts and at least one question', () => {
+        expect(errorOf(() => validateSessionData({ ...data(), concepts: [] }))).toBe('Bundle contains no concepts.');
+        expect(errorOf(() => validateSessionData({ ...data(), questions: [] }))).toBe('Bundle contains no questions.');
+    });
+
+    it('runs questions through the generation rules', () => {
+        const question = { ...data().questions[0], correctOptionIndex: 4 };
+        expect(errorOf(() => validateSessionData({ ...data(), questions: [question] })))
+            .toBe('Question 1 has correctOptionIndex 4 outside 0-1.');
+    });
+
+    it('rejects relation entries that are not objects', () => {
+        expect(errorOf(() => validateSessionData({ ...data(), relations: [null] })))
+            .toBe('Bundle contains malformed concept relations.');
+    });
+});
+
+describe('parseBundle', () => {
+    it('rejects files that are not bundles or are from a newer version', () => {
+        expect(errorOf(() => parseBundle('{'))).toBe('File is not valid JSON.');
+        expect(errorOf(() => parseBundle(bundleJson({ format: 'other' })))).toBe('File is not a Neural Nexus session bundle.');
+        expect(errorOf(() => parseBundle(bundleJson({ version: BUNDLE_VERSION + 1 })))).toMatch(/newer than this app supports/);
+        expect(errorOf(() => parseBundle(bundleJson({ source: {} })))).toBe('Bundle is missing its source fingerprint.');
+    });
+
+    it("resets the exporter's mastery", () => {
+        const bundle = parseBundle(bundleJson());
+        expect(bundle.name).toBe('Shared');
+        expect(bundle.data.concepts[0].mastered).toBe(false);
+    });
+});
+
+describe('source matching', () => {
+    it('matches only the artifact the bundle was created from', async () => {
+        const bundle = await createBundle({ name: 'Cells', data: data(), context }, false);
+        expect(bundle.context).toBeUndefined();
+        expect(await matchesSource(bundle, context)).toBe(true);
+        expect(await matchesSource(bundle, { ...context, content: 'Something else' })).toBe(false);
+    });
+});
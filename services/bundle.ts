@@ -0,0 +1,151 @@
+import { DeepDiveContent, GenerationSettings, InputContext, QuestionType, SessionProgress, StudySessionData } from "../types";
+import { STABILITY_INITIAL } from "../constants";
+import { createStats } from "./rules";
+import { downloadFile, toFileSlug } from "./download";
+import { sha256 } from "./hash";
+import { fileDocuments } from "./documents";
+import { validateQuestion } from "./validation";
+
+// Shareable snapshot of a generated session. Bump BUNDLE_VERSION on any breaking shape change
+// and keep parseBundle able to read older versions.
+export const BUNDLE_FORMAT = 'neural-nexus-session';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.nexus.json';
+
+export interface SessionBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: number;
+    name: string;
+    data: StudySessionData;
+    deepDives?: Record<string, DeepDiveContent>;
+    // Either the artifact itself, or only its hash so recipients must supply the same file
+    context?: InputContext;
+    source: { hash: string; type: InputContext['type']; mimeType?: string; fileName?: string };
+    settings?: GenerationSettings;
+}
+
+export interface BundleSource {
+    name: string;
+    data: StudySessionData;
+    context: InputContext;
+    settings?: GenerationSettings;
+    deepDives?: Record<string, DeepDiveContent>;
+}
+
+export class BundleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BundleError';
+    }
+}
+
+// SHA-256 of the artifact content (text, or base64 for binary files). A multi-document set also
+// covers its attached files, in order.
+export const hashContext = (context: InputContext): Promise<string> =>
+    sha256([context.content, ...fileDocuments(context).map(d => d.data)].join('\n'));
+
+export const createBundle = async (source: BundleSource, includeContext: boolean): Promise<SessionBundle> => ({
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    name: source.name,
+    data: source.data,
+    deepDives: source.deepDives && Object.keys(source.deepDives).length > 0 ? source.deepDives : undefined,
+    context: includeContext ? source.context : undefined,
+    source: {
+        hash: await hashContext(source.context),
+        type: source.context.type,
+        mimeType: source.context.mimeType,
+        fileName: source.context.fileName
+    },
+    settings: source.settings
+});
+
+export const downloadBundle = async (source: BundleSource, includeContext: boolean) => {
+    const bundle = await createBundle(source, includeContext);
+    downloadFile(`${toFileSlug(source.name)}${BUNDLE_EXTENSION}`, JSON.stringify(bundle), 'application/json');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Structural check for session data arriving from a file; also used for profile imports
+export const validateSessionData = (data: unknown): StudySessionData => {
+    if (!isObject(data) || !isString(data.title) || !isString(data.summary)) {
+        throw new BundleError("Bundle is missing the session title or summary.");
+    }
+    if (!Array.isArray(data.concepts) || data.concepts.length === 0) {
+        throw new BundleError("Bundle contains no concepts.");
+    }
+    data.concepts.forEach((c: unknown, i: number) => {
+        if (!isObject(c) || !isString(c.id) || !isString(c.term) || !isString(c.definition) || !isString(c.analogy)) {
+            throw new BundleError(`Concept ${i + 1} is malformed.`);
+        }
+    });
+    if (!Array.isArray(data.questions) || data.questions.length === 0) {
+        throw new BundleError("Bundle contains no questions.");
+    }
+    // Questions are held to the same rules as generated ones, so options and answer indexes are checked too
+    const questions = data.questions.map((q: unknown, i: number) => {
+        if (!isObject(q) || !isString(q.id) || !isString(q.question) || !isString(q.explanation)
+            || !Object.values(QuestionType).includes(q.type as QuestionType)) {
+            throw new BundleError(`Question ${i + 1} is malformed.`);
+        }
+        const { value, issues } = validateQuestion(q, `Question ${i + 1}`);
+        if (!value) throw new BundleError(`${issues[0]}.`);
+        return value;
+    });
+    if (data.relations !== undefined && (!Array.isArray(data.relations)
+        || !data.relations.every(r => isObject(r) && isString(r.from) && isString(r.to) && isString(r.type)))) {
+        throw new BundleError("Bundle contains malformed concept relations.");
+    }
+    return { ...data, questions } as unknown as StudySessionData;
+};
+
+export const parseBundle = (json: string): SessionBundle => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new BundleError("File is not valid JSON.");
+    }
+    if (!isObject(raw) || raw.format !== BUNDLE_FORMAT) {
+        throw new BundleError("File is not a Neural Nexus session bundle.");
+    }
+    if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) {
+        throw new BundleError(`Bundle version ${String(raw.version)} is newer than this app supports (v${BUNDLE_VERSION}).`);
+    }
+    if (!isObject(raw.source) || !isString(raw.source.hash)) {
+        throw new BundleError("Bundle is missing its source fingerprint.");
+    }
+    if (raw.context !== undefined && (!isObject(raw.context) || !isString(raw.context.content)
+        || (raw.context.type !== 'text' && raw.context.type !== 'file'))) {
+        throw new BundleError("Bundled source artifact is malformed.");
+    }
+    const validated = validateSessionData(raw.data);
+    // A bundle shares the session, never the exporter's own mastery
+    const data = { ...validated, concepts: validated.concepts.map(c => ({ ...c, mastered: false, review: undefined })) };
+    return { ...(raw as unknown as SessionBundle), data, name: isString(raw.name) ? raw.name : data.title };
+};
+
+// Recipients must supply the exact artifact the bundle was generated from
+export const matchesSource = async (bundle: SessionBundle, context: InputContext) =>
+    (await hashContext(context)) === bundle.source.hash;
+
+// Fresh progress that carries the bundled deep dives, so they don't cost another call
+export const bundleProgress = (bundle: SessionBundle): SessionProgress | undefined => {
+    if (!bundle.deepDives) return undefined;
+    return {
+        concepts: bundle.data.concepts,
+        deepDives: bundle.deepDives,
+        currentQIndex: 0,
+        quizComplete: false,
+        stats: createStats(Date.now()),
+        history: [{ time: 0, stability: STABILITY_INITIAL }],
+        attempts: [],
+        activeConceptId: null,
+        viewMode: 'DATA_CORE'
+    };
+};
@@ -0,0 +1,96 @@
+import { InputContext, SourceChunk, StudyConcept } from "../types";
+
+// Text longer than this is split into chunks instead of being sent in a single prompt
+export const CHUNKING_THRESHOLD = 30000;
+export const MAX_CHUNK_CHARS = 12000;
+
+// Markdown headings, numbered section titles ("2.1 Methods") and short ALL-CAPS lines
+const HEADING_PATTERN = /^(#{1,6}\s+\S.*|\d+(\.\d+)*\.?\s+[A-Z][^\n]{0,80}|[A-Z][A-Z0-9 ,:;'&-]{3,80})$/gm;
+
+interface Span {
+    start: number;
+    end: number;
+    heading?: string;
+}
+
+const splitByHeadings = (text: string): Span[] => {
+    const starts: { index: number; heading: string }[] = [];
+    for (const match of text.matchAll(HEADING_PATTERN)) {
+        starts.push({ index: match.index!, heading: match[0].replace(/^#+\s*/, '').trim() });
+    }
+    if (starts.length === 0 || starts[0].index > 0) starts.unshift({ index: 0, heading: '' });
+
+    return starts.map((s, i) => ({
+        start: s.index,
+        end: i + 1 < starts.length ? starts[i + 1].index : text.length,
+        heading: s.heading || undefined
+    })).filter(span => text.slice(span.start, span.end).trim().length > 0);
+};
+
+// Breaks an oversized span at paragraph boundaries, falling back to sentence ends, then hard cuts
+const splitOversized = (text: string, span: Span): Span[] => {
+    const out: Span[] = [];
+    let start = span.start;
+    while (span.end - start > MAX_CHUNK_CHARS) {
+        const window = text.slice(start, start + MAX_CHUNK_CHARS);
+        let cut = window.lastIndexOf('\n\n');
+        if (cut < MAX_CHUNK_CHARS / 2) cut = window.lastIndexOf('. ') + 1;
+        if (cut < MAX_CHUNK_CHARS / 2) cut = MAX_CHUNK_CHARS;
+        out.push({ start, end: start + cut, heading: out.length === 0 ? span.heading : span.heading && `${span.heading} (cont.)` });
+        start += cut;
+    }
+    out.push({ start, end: span.end, heading: out.length === 0 ? span.heading : span.heading && `${span.heading} (cont.)` });
+    return out;
+};
+
+export const chunkText = (text: string): SourceChunk[] => {
+    const spans = splitByHeadings(text).flatMap(span => splitOversized(text, span));
+
+    // Pack adjacent small sections together so we don't spend a call per subheading
+    const packed: Span[] = [];
+    for (const span of spans) {
+        const last = packed[packed.length - 1];
+        if (last && span.end - last.start <= MAX_CHUNK_CHARS) {
+            last.end = span.end;
+        } else {
+            packed.push({ ...span });
+        }
+    }
+
+    return packed.map((span, index) => ({ index, heading: span.heading, start: span.start, end: span.end }));
+};
+
+export const needsChunking = (input: InputContext) =>
+    input.type === 'text' && input.content.length > CHUNKING_THRESHOLD;
+
+const normalizeTerm = (term: string) =>
+    term.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().replace(/s\b/g, '');
+
+// Merges per-chunk extractions, keeping the first definition seen for each term. Terms that recur
+// across chunks are ranked first when trimming down to `limit`, then document order is restored.
+export const mergeConcepts = (perChunk: StudyConcept[][], limit: number): StudyConcept[] => {
+    const merged = new Map<string, { concept: StudyConcept; occurrences: number; order: number }>();
+    perChunk.forEach(concepts => concepts.forEach(concept => {
+        const key = normalizeTerm(concept.term);
+        const existing = merged.get(key);
+        if (existing) {
+            existing.occurrences++;
+        } else {
+            merged.set(key, { concept, occurrences: 1, order: merged.size });
+        }
+    }));
+
+    return [...merged.values()]
+        .sort((a, b) => b.occurrences - a.occurrences || a.order - b.order)
+        .slice(0, limit)
+        .sort((a, b) => a.order - b.order)
+        .map((entry, i) => ({ ...entry.concept, id: `c${i + 1}`, mastered: false }));
+};
+
+// Narrows a long text context to the chunk a concept was extracted from. Multi-document sets are
+// kept whole so concept-scoped calls can still draw on every source.
+export const contextForConcept = (input: InputContext, concept: StudyConcept, chunks?: SourceChunk[]): InputContext => {
+    const chunk = concept.sourceChunk !== undefined ? chunks?.[concept.sourceChunk] : undefined;
+    if (!chunk || input.type !== 'text' || input.documents) return input;
+    return { ...input, content: input.content.slice(chunk.start, chunk.end) };
+};
@@ -0,0 +1,61 @@
+import { DeepDiveContent, InputContext, SourceCitation, StudySessionData } from "../types";
+import { resolveCitationSource } from "./documents";
+
+// Finds the quote in the source text. Models often alter whitespace or casing when quoting,
+// so fall back to a normalized search and map the hit back to original offsets.
+export const locateQuote = (quote: string, text: string): { start: number; end: number } | null => {
+    const trimmed = quote.trim().replace(/^["'“”]+|["'“”]+$/g, '');
+    if (!trimmed) return null;
+
+    const exact = text.indexOf(trimmed);
+    if (exact >= 0) return { start: exact, end: exact + trimmed.length };
+
+    // Build a normalized copy of the text with a map back to original indices
+    const positions: number[] = [];
+    let normalized = '';
+    let lastWasSpace = false;
+    for (let i = 0; i < text.length; i++) {
+        const isSpace = /\s/.test(text[i]);
+        if (isSpace && lastWasSpace) continue;
+        normalized += isSpace ? ' ' : text[i].toLowerCase();
+        positions.push(i);
+        lastWasSpace = isSpace;
+    }
+    const needle = trimmed.replace(/\s+/g, ' ').toLowerCase();
+    const hit = normalized.indexOf(needle);
+    if (hit < 0) return null;
+    return { start: positions[hit], end: positions[hit + needle.length - 1] + 1 };
+};
+
+// Text extracted from a PDF knows which page each offset came from
+const pageAt = (input: InputContext, offset: number) =>
+    input.pages?.find(p => p.start <= offset && offset <= p.end)?.page;
+
+export const anchorCitations = <T extends SourceCitation>(citations: T[] | undefined, input: InputContext): T[] | undefined => {
+    if (!citations) return undefined;
+    const valid = citations.filter(c => c.quote && c.quote.trim());
+    return valid.map(citation => {
+        // Gemini schemas can't express optional integers well; 0 means "unknown page"
+        const page = citation.page && citation.page > 0 ? citation.page : undefined;
+        if (input.type !== 'text') return { ...citation, page };
+        const span = locateQuote(citation.quote, input.content);
+        const anchored = span
+            ? { ...citation, page: pageAt(input, span.start) ?? page, ...span }
+            : { ...citation, page, start: undefined, end: undefined };
+        return { ...anchored, source: resolveCitationSource(anchored, input) };
+    });
+};
+
+export const anchorSessionCitations = (data: StudySessionData, input: InputContext): StudySessionData => ({
+    ...data,
+    concepts: data.concepts.map(c => ({ ...c, citations: anchorCitations(c.citations, input) })),
+    questions: data.questions.map(q => ({ ...q, citations: anchorCitations(q.citations, input) }))
+});
+
+export const anchorDeepDiveCitations = (content: DeepDiveContent, input: InputContext): DeepDiveContent => ({
+    ...content,
+    citations: anchorCitations(content.citations, input)
+});
+
+// A citation is verified when its quote was actually found in a text artifact
+export const isVerified = (citation: SourceCitation) => citation.start !== undefined;
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { layoutGraph, lockedPrerequisites, orderByPrerequisites, recommendNext, sanitizeRelations } from './conceptGraph';
+import { ConceptRelation, RelationType, StudyConcept } from '../types';
+
+const concept = (id: string, mastered = false): StudyConcept =>
+    ({ id, term: id, definition: '', analogy: '', mastered }) as StudyConcept;
+const prereq = (from: string, to: string): ConceptRelation => ({ from, to, type: RelationType.PREREQUISITE_OF });
+
+const concepts = ['a', 'b', 'c'].map(id => concept(id));
+
+describe('sanitizeRelations', () => {
+    it('drops unknown ids, self-references, unknown types and duplicates', () => {
+        const relations = [
+            prereq('a', 'b'),
+            prereq('a', 'b'),
+            prereq('a', 'x'),
+            prereq('c', 'c'),
+            { from: 'a', to: 'c', type: 'SIMILAR_TO' as RelationType }
+        ];
+        expect(sanitizeRelations(relations, concepts)).toEqual([prereq('a', 'b')]);
+    });
+
+    it('drops the prerequisite edge that would close a cycle', () => {
+        expect(sanitizeRelations([prereq('a', 'b'), prereq('b', 'c'), prereq('c', 'a')], concepts))
+            .toEqual([prereq('a', 'b'), prereq('b', 'c')]);
+    });
+
+    it('accepts a missing relation list', () => {
+        expect(sanitizeRelations(undefined, concepts)).toEqual([]);
+    });
+});
+
+describe('learning path', () => {
+    it('orders concepts so prerequisites come first, keeping generation order for ties', () => {
+        const ordered = orderByPrerequisites(concepts, [prereq('c', 'a')]);
+        expect(ordered.map(c => c.id)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('appends concepts caught in a cycle instead of dropping them', () => {
+        const ordered = orderByPrerequisites(concepts, [prereq('a', 'b'), prereq('b', 'a')]);
+        expect(ordered.map(c => c.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('locks a concept until its prerequisites are mastered', () => {
+        const relations = [prereq('a', 'b')];
+        expect(lockedPrerequisites(concepts[1], concepts, relations).map(c => c.id)).toEqual(['a']);
+        const mastered = [concept('a', true), concepts[1], concepts[2]];
+        expect(lockedPrerequisites(mastered[1], mastered, relations)).toEqual([]);
+    });
+
+    it('recommends the first unlocked concept that is not yet mastered', () => {
+        const path = [concept('a', true), concept('b'), concept('c')];
+        expect(recommendNext(path, [prereq('c', 'b')])?.id).toBe('c');
+        expect(recommendNext(path.map(c => ({ ...c, mastered: true })), [])).toBeUndefined();
+    });
+});
+
+describe('layoutGraph', () => {
+    it('places every node inside the canvas margins', () => {
+        const nodes = layoutGraph(['a', 'b', 'c', 'd'], [prereq('a', 'b')], 400, 300);
+        expect(nodes.map(n => n.id)).toEqual(['a', 'b', 'c', 'd']);
+        nodes.forEach(n => {
+            expect(n.x).toBeGreaterThanOrEqual(30);
+            expect(n.x).toBeLessThanOrEqual(370);
+            expect(n.y).toBeGreaterThanOrEqual(30);
+            expect(n.y).toBeLessThanOrEqual(270);
+        });
+    });
+});
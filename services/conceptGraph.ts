@@ -0,0 +1,141 @@
+import { ConceptRelation, RelationType, StudyConcept } from "../types";
+import { isDue } from "./scheduler";
+
+const reaches = (from: string, to: string, relations: ConceptRelation[]): boolean => {
+    const stack = [from];
+    const visited = new Set<string>();
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === to) return true;
+        if (visited.has(id)) continue;
+        visited.add(id);
+        relations.filter(r => r.from === id).forEach(r => stack.push(r.to));
+    }
+    return false;
+};
+
+// Models occasionally reference ids that don't exist, point a concept at itself or repeat an edge.
+// Prerequisite edges that would close a cycle are dropped too, otherwise gating could lock both ends forever.
+export const sanitizeRelations = (relations: ConceptRelation[] | undefined, concepts: StudyConcept[]): ConceptRelation[] => {
+    const ids = new Set(concepts.map(c => c.id));
+    const seen = new Set<string>();
+    const prerequisites: ConceptRelation[] = [];
+    return (relations ?? []).filter(relation => {
+        if (!ids.has(relation.from) || !ids.has(relation.to) || relation.from === relation.to) return false;
+        if (!Object.values(RelationType).includes(relation.type)) return false;
+        const key = `${relation.from}|${relation.to}|${relation.type}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        if (relation.type === RelationType.PREREQUISITE_OF) {
+            if (reaches(relation.to, relation.from, prerequisites)) return false;
+            prerequisites.push(relation);
+        }
+        return true;
+    });
+};
+
+export interface GraphNode {
+    id: string;
+    x: number;
+    y: number;
+}
+
+const ITERATIONS = 300;
+const REPULSION = 2000;
+const SPRING_LENGTH = 90;
+const SPRING_STRENGTH = 0.05;
+const GRAVITY = 0.02;
+
+// Simple force-directed layout: nodes repel, edges act as springs, gravity pulls toward the centre.
+// Starts from a circle so the result is deterministic for a given graph.
+export const layoutGraph = (ids: string[], relations: ConceptRelation[], width: number, height: number): GraphNode[] => {
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = Math.min(width, height) / 3;
+    const nodes = ids.map((id, i) => {
+        const angle = (2 * Math.PI * i) / Math.max(ids.length, 1);
+        return { id, x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle), vx: 0, vy: 0 };
+    });
+    const index = new Map(nodes.map((node, i) => [node.id, i]));
+
+    for (let step = 0; step < ITERATIONS; step++) {
+        const cooling = 1 - step / ITERATIONS;
+        for (let i = 0; i < nodes.length; i++) {
+            for (let j = i + 1; j < nodes.length; j++) {
+                const dx = nodes[i].x - nodes[j].x;
+                const dy = nodes[i].y - nodes[j].y;
+                const distSq = Math.max(dx * dx + dy * dy, 1);
+                const dist = Math.sqrt(distSq);
+                const force = REPULSION / distSq;
+                nodes[i].vx += (dx / dist) * force;
+                nodes[i].vy += (dy / dist) * force;
+                nodes[j].vx -= (dx / dist) * force;
+                nodes[j].vy -= (dy / dist) * force;
+            }
+        }
+        for (const relation of relations) {
+            const a = nodes[index.get(relation.from)!];
+            const b = nodes[index.get(relation.to)!];
+            if (!a || !b) continue;
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const dist = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+            const force = (dist - SPRING_LENGTH) * SPRING_STRENGTH;
+            a.vx += (dx / dist) * force;
+            a.vy += (dy / dist) * force;
+            b.vx -= (dx / dist) * force;
+            b.vy -= (dy / dist) * force;
+        }
+        for (const node of nodes) {
+            node.vx += (cx - node.x) * GRAVITY;
+            node.vy += (cy - node.y) * GRAVITY;
+            node.x += node.vx * cooling;
+            node.y += node.vy * cooling;
+            node.vx *= 0.5;
+            node.vy *= 0.5;
+        }
+    }
+
+    // Keep every node inside the viewport
+    const margin = 30;
+    return nodes.map(({ id, x, y }) => ({
+        id,
+        x: Math.min(width - margin, Math.max(margin, x)),
+        y: Math.min(height - margin, Math.max(margin, y))
+    }));
+};
+
+export const prerequisitesOf = (conceptId: string, relations: ConceptRelation[]): string[] =>
+    relations.filter(r => r.type === RelationType.PREREQUISITE_OF && r.to === conceptId).map(r => r.from);
+
+// Topological order over PREREQUISITE_OF edges (Kahn's algorithm). Ties keep the generation order.
+// Unsanitized input may still contain cycles; those concepts are appended rather than dropped.
+export const orderByPrerequisites = (concepts: StudyConcept[], relations: ConceptRelation[]): StudyConcept[] => {
+    const pending = new Map(concepts.map(c => [c.id, prerequisitesOf(c.id, relations).length]));
+    const ordered: StudyConcept[] = [];
+    let progressed = true;
+    while (progressed) {
+        progressed = false;
+        for (const concept of concepts) {
+            if (pending.get(concept.id) !== 0) continue;
+            ordered.push(concept);
+            pending.delete(concept.id);
+            relations
+                .filter(r => r.type === RelationType.PREREQUISITE_OF && r.from === concept.id && pending.has(r.to))
+                .forEach(r => pending.set(r.to, pending.get(r.to)! - 1));
+            progressed = true;
+            break;
+        }
+    }
+    return [...ordered, ...concepts.filter(c => pending.has(c.id))];
+};
+
+// A concept is locked while any of its prerequisites is unsynchronized
+export const lockedPrerequisites = (concept: StudyConcept, concepts: StudyConcept[], relations: ConceptRelation[]): StudyConcept[] => {
+    const required = new Set(prerequisitesOf(concept.id, relations));
+    return concepts.filter(c => required.has(c.id) && !c.mastered);
+};
+
+// The next concept worth studying: the first unlocked concept along the path that is unsynchronized or decaying
+export const recommendNext = (path: StudyConcept[], relations: ConceptRelation[]): StudyConcept | undefined =>
+    path.find(c => (!c.mastered || isDue(c)) && lockedPrerequisites(c, path, relations).length === 0);
@@ -0,0 +1,49 @@
+// Shared IndexedDB connection. Bump DB_VERSION and extend the upgrade handler when adding a store;
+// existing stores are left untouched so saved sessions survive upgrades.
+const DB_NAME = 'neural-nexus';
+const DB_VERSION = 3;
+export const SESSION_STORE = 'sessions';
+export const RESPONSE_STORE = 'responses';
+export const PROFILE_STORE = 'profiles';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+                if (!db.objectStoreNames.contains(RESPONSE_STORE)) {
+                    const store = db.createObjectStore(RESPONSE_STORE, { keyPath: 'key' });
+                    store.createIndex('createdAt', 'createdAt');
+                }
+                if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+                    db.createObjectStore(PROFILE_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Runs a single request inside its own transaction and resolves with its result
+export const withStore = async <T>(storeName: string, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = fn(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
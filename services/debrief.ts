@@ -0,0 +1,114 @@
+import { GameQuestion, QuestionAttempt, SavedSession, StabilityPoint, StudyConcept } from "../types";
+
+export interface QuestionOutcome {
+    question: GameQuestion;
+    attempt?: QuestionAttempt;
+}
+
+export interface ConceptOutcome {
+    concept: StudyConcept;
+    lastScore?: number;
+    missedQuestions: number;
+}
+
+export interface Debrief {
+    title: string;
+    generatedAt: number;
+    questions: QuestionOutcome[];
+    concepts: ConceptOutcome[];
+    timeline: StabilityPoint[];
+    finalStability: number;
+    timeSpentMs: number;
+    missedExplanations: { question: string; explanation: string }[];
+    recommended: StudyConcept[];
+}
+
+// Generated questions carry no concept id, so attribute a question to every concept whose term it mentions
+export const mentions = (question: GameQuestion, concept: StudyConcept) =>
+    question.conceptId === concept.id || question.question.toLowerCase().includes(concept.term.toLowerCase());
+
+export const buildDebrief = (session: SavedSession): Debrief => {
+    const progress = session.progress;
+    const attempts = progress?.attempts ?? [];
+    const concepts = progress?.concepts ?? session.data.concepts;
+
+    const questions = (progress?.questions ?? session.data.questions).map(question => ({
+        question,
+        attempt: attempts.find(a => a.questionId === question.id)
+    }));
+    const missed = questions.filter(q => q.attempt && !q.attempt.passed);
+
+    const conceptOutcomes = concepts.map(concept => ({
+        concept,
+        lastScore: concept.review?.history[concept.review.history.length - 1]?.score,
+        missedQuestions: missed.filter(q => mentions(q.question, concept)).length
+    }));
+
+    const recommended = conceptOutcomes
+        .filter(o => !o.concept.mastered || o.missedQuestions > 0)
+        .sort((a, b) => b.missedQuestions - a.missedQuestions || (a.lastScore ?? 0) - (b.lastScore ?? 0))
+        .map(o => o.concept);
+
+    return {
+        title: session.name,
+        generatedAt: Date.now(),
+        questions,
+        concepts: conceptOutcomes,
+        timeline: progress?.history ?? [],
+        finalStability: progress?.stats.stability ?? 0,
+        timeSpentMs: attempts.reduce((total, a) => total + a.durationMs, 0),
+        missedExplanations: missed.map(q => ({ question: q.question.question, explanation: q.question.explanation })),
+        recommended
+    };
+};
+
+export const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+export const debriefToMarkdown = (debrief: Debrief): string => {
+    const lines: string[] = [
+        `# Debrief: ${debrief.title}`,
+        '',
+        `Generated ${new Date(debrief.generatedAt).toLocaleString()}`,
+        '',
+        `- Final stability: ${debrief.finalStability.toFixed(1)}%`,
+        `- Time in simulation: ${formatDuration(debrief.timeSpentMs)}`,
+        `- Questions passed: ${debrief.questions.filter(q => q.attempt?.passed).length}/${debrief.questions.length}`,
+        '',
+        '## Questions',
+        ''
+    ];
+
+    debrief.questions.forEach(({ question, attempt }, idx) => {
+        const status = !attempt ? 'SKIPPED' : attempt.passed ? 'PASSED' : 'FAILED';
+        lines.push(`### ${idx + 1}. [${status}] ${question.question}`);
+        if (question.rivalTheory) lines.push(`- Rival theory: ${question.rivalTheory}`);
+        if (attempt?.selectedOption !== undefined && question.options) {
+            lines.push(`- Answer: ${question.options[attempt.selectedOption]}`);
+        }
+        if (attempt?.response) lines.push(`- Answer: ${attempt.response}`);
+        if (attempt?.score !== undefined) lines.push(`- Score: ${attempt.score}/100`);
+        if (attempt) lines.push(`- Time: ${formatDuration(attempt.durationMs)}`);
+        lines.push(`- Explanation: ${question.explanation}`, '');
+    });
+
+    lines.push('## Concepts', '');
+    debrief.concepts.forEach(({ concept, lastScore, missedQuestions }) => {
+        const score = lastScore !== undefined ? `, last sync ${lastScore}/100` : '';
+        lines.push(`- **${concept.term}**: ${concept.mastered ? 'synchronized' : 'unstable'}${score}, ${missedQuestions} missed question(s)`);
+    });
+
+    lines.push('', '## Stability Timeline', '', debrief.timeline.map(p => p.stability.toFixed(0)).join(' → '), '');
+
+    if (debrief.recommended.length > 0) {
+        lines.push('## Revisit', '');
+        debrief.recommended.forEach(concept => lines.push(`- ${concept.term}: ${concept.definition}`));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+};
@@ -0,0 +1,114 @@
+import { InputContext, PageSpan, SourceChunk, SourceCitation, SourceDocument, StudySessionData } from "../types";
+
+// Several staged artifacts travel as one InputContext. Text documents are concatenated into `content`
+// under a "# [S1] name" heading each, so chunking, retrieval and citation anchoring work across the
+// whole set unchanged. Binary documents (PDFs, images) keep their own Base64 data and are attached
+// to every prompt alongside the text.
+
+export const isMultiDocument = (input: InputContext): input is InputContext & { documents: SourceDocument[] } =>
+    !!input.documents && input.documents.length > 0;
+
+// A single artifact is passed through untouched, so its cache entries and bundle hashes stay valid
+export const combineDocuments = (inputs: InputContext[]): InputContext => {
+    if (inputs.length === 1) return inputs[0];
+    let content = '';
+    const pages: PageSpan[] = [];
+    const documents = inputs.map((input, i): SourceDocument => {
+        const id = `S${i + 1}`;
+        const fileName = input.fileName ?? (input.type === 'text' ? 'Pasted text' : `Artifact ${i + 1}`);
+        if (input.type === 'file' && input.mimeType) {
+            return { id, fileName, type: 'file', mimeType: input.mimeType, data: input.content };
+        }
+        if (content) content += '\n\n';
+        const start = content.length;
+        content += `# [${id}] ${fileName}\n\n`;
+        // Page spans of extracted PDFs move along with their text
+        const offset = content.length;
+        input.pages?.forEach(p => pages.push({ ...p, start: p.start + offset, end: p.end + offset }));
+        content += input.content;
+        return { id, fileName, type: 'text', start, end: content.length };
+    });
+    return {
+        type: 'text',
+        content,
+        fileName: documents.map(d => d.fileName).join(' + '),
+        documents,
+        pages: pages.length > 0 ? pages : undefined
+    };
+};
+
+export const findDocument = (input: InputContext, id?: string) =>
+    id ? input.documents?.find(d => d.id === id) : undefined;
+
+export const documentAt = (input: InputContext, offset: number) =>
+    input.documents?.find(d => d.type === 'text' && d.start! <= offset && offset < d.end!);
+
+export const fileDocuments = (input: InputContext) =>
+    input.documents?.filter(d => d.type === 'file' && d.data && d.mimeType) ?? [];
+
+export const documentContext = (doc: SourceDocument): InputContext => ({
+    type: 'file',
+    content: doc.data ?? '',
+    mimeType: doc.mimeType,
+    fileName: doc.fileName
+});
+
+// Tells the model what each source id refers to and where to find it
+export const describeDocuments = (input: InputContext): string => {
+    if (!isMultiDocument(input)) return '';
+    let attachment = 0;
+    const lines = input.documents.map(d => d.type === 'file'
+        ? `[${d.id}] ${d.fileName} (attached file ${++attachment})`
+        : `[${d.id}] ${d.fileName} (text under the "# [${d.id}]" heading)`);
+    return `Sources:\n${lines.join('\n')}`;
+};
+
+// Fits the combined text into `maxChars` by giving every text document an equal share, so one
+// long reading can't crowd the others out of the prompt
+export const budgetedText = (input: InputContext, maxChars: number): string => {
+    if (input.content.length <= maxChars) return input.content;
+    const texts = input.documents?.filter(d => d.type === 'text') ?? [];
+    if (texts.length < 2) return input.content.substring(0, maxChars);
+    const share = Math.floor(maxChars / texts.length);
+    return texts.map(d => input.content.slice(d.start, Math.min(d.end!, d.start! + share))).join('\n\n');
+};
+
+// Quotes found in the combined text belong to the document they sit in; quotes from attached
+// files keep the source the model named if it is one of ours
+export const resolveCitationSource = (citation: SourceCitation, input: InputContext): string | undefined => {
+    if (!isMultiDocument(input)) return undefined;
+    if (citation.start !== undefined) return documentAt(input, citation.start)?.id;
+    return findDocument(input, citation.source)?.id;
+};
+
+// Only text artifacts can be searched for the quote
+export const isVerifiable = (citation: SourceCitation, input: InputContext): boolean => {
+    if (!isMultiDocument(input)) return input.type === 'text';
+    return findDocument(input, citation.source)?.type !== 'file';
+};
+
+const chunkDocuments = (input: InputContext, chunk?: SourceChunk) =>
+    chunk ? input.documents!.filter(d => d.type === 'text' && d.start! < chunk.end && chunk.start < d.end!).map(d => d.id) : [];
+
+// Combines the ids the model tagged with those the citations resolve to. Concepts from chunked
+// ingestion fall back to the documents their chunk overlaps.
+const collectSources = (input: InputContext, tagged: unknown, citations?: SourceCitation[], fallback: string[] = []) => {
+    const ids = new Set<string>();
+    if (Array.isArray(tagged)) tagged.forEach(id => { if (typeof id === 'string' && findDocument(input, id)) ids.add(id); });
+    citations?.forEach(c => { if (c.source) ids.add(c.source); });
+    if (ids.size === 0) fallback.forEach(id => ids.add(id));
+    return input.documents!.map(d => d.id).filter(id => ids.has(id));
+};
+
+// Expects citations to be anchored already (see anchorSessionCitations)
+export const tagSources = (data: StudySessionData, input: InputContext): StudySessionData => {
+    if (!isMultiDocument(input)) return data;
+    return {
+        ...data,
+        concepts: data.concepts.map(c => {
+            const chunk = c.sourceChunk !== undefined ? data.sourceChunks?.[c.sourceChunk] : undefined;
+            return { ...c, sources: collectSources(input, c.sources, c.citations, chunkDocuments(input, chunk)) };
+        }),
+        questions: data.questions.map(q => ({ ...q, sources: collectSources(input, q.sources, q.citations) }))
+    };
+};
@@ -0,0 +1,24 @@
+import { ResponseValidationError } from "./validation";
+import { NetworkError, QuotaError, RequestAbortedError, SafetyBlockError } from "./llm/errors";
+
+// Cancelled requests are expected (the student navigated away) and must never surface as errors
+export const isAborted = (error: unknown): boolean => error instanceof RequestAbortedError;
+
+// Maps a failure to a message the student can act on. Unknown errors fall back to the caller's generic text.
+export const describeError = (error: unknown, fallback: string): string => {
+    if (error instanceof ResponseValidationError) {
+        return `The model returned a ${error.shape} that could not be repaired (${error.issues[0]}). Try again, or lower the concept count or question mix in calibration.`;
+    }
+    if (error instanceof QuotaError) {
+        return `The ${error.provider} API key hit its rate limit or quota, even after retrying. Wait a minute and try again, or check the key's quota and billing.`;
+    }
+    if (error instanceof SafetyBlockError) {
+        return `The model's safety filters blocked this request (${error.reason}). Rephrase your answer, or use a different excerpt of the artifact.`;
+    }
+    if (error instanceof NetworkError) {
+        return error.timedOut
+            ? "The model took too long to respond. Try again; for very long artifacts, lower the concept count in calibration."
+            : `Could not reach the ${error.provider} service${error.status ? ` (HTTP ${error.status})` : ''}. Check your connection and try again in a moment.`;
+    }
+    return fallback;
+};
@@ -0,0 +1,92 @@
+import { DeepDiveContent, GameQuestion, QuestionType, StudyConcept } from "../types";
+
+export interface ExportSource {
+    title: string;
+    summary: string;
+    concepts: StudyConcept[];
+    questions: GameQuestion[];
+    deepDives: Record<string, DeepDiveContent>;
+}
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Anki's text importer treats tabs as field separators and newlines as note separators
+const ankiField = (html: string) => html.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+
+const ankiTag = (title: string) => title.trim().replace(/\s+/g, '_') || 'neural_nexus';
+
+// Tab-separated notes with Anki's file headers, importable via File > Import into a Basic note type
+export const toAnkiDeck = (source: ExportSource): string => {
+    const tag = ankiTag(source.title);
+    const notes: [string, string, string][] = source.concepts.map(concept => [
+        escapeHtml(concept.term),
+        `${escapeHtml(concept.definition)}<br><br><i>Analogy: ${escapeHtml(concept.analogy)}</i>`,
+        `${tag} concept`
+    ]);
+
+    source.questions
+        .filter(q => q.type === QuestionType.CONCEPT_CHECK && q.options && q.options.length > 0)
+        .forEach(q => {
+            const options = q.options!.map(opt => `<li>${escapeHtml(opt)}</li>`).join('');
+            const answer = q.options![q.correctOptionIndex ?? -1];
+            notes.push([
+                `${escapeHtml(q.question)}<ol>${options}</ol>`,
+                `${answer !== undefined ? `<b>${escapeHtml(answer)}</b><br><br>` : ''}${escapeHtml(q.explanation)}`,
+                `${tag} question`
+            ]);
+        });
+
+    return [
+        '#separator:tab',
+        '#html:true',
+        '#tags column:3',
+        ...notes.map(fields => fields.map(ankiField).join('\t'))
+    ].join('\n');
+};
+
+export const toStudyGuideMarkdown = (source: ExportSource): string => {
+    const lines: string[] = [`# ${source.title}`, '', source.summary, '', '## Concepts', ''];
+
+    source.concepts.forEach(concept => {
+        lines.push(`### ${concept.term}`, '', concept.definition, '', `> **Analogy:** ${concept.analogy}`, '');
+        concept.citations?.forEach(c => lines.push(`> "${c.quote}"${c.page ? ` (p. ${c.page})` : ''}`, ''));
+
+        const deepDive = source.deepDives[concept.id];
+        if (deepDive) {
+            lines.push(
+                '#### Theoretical Underpinnings', '', deepDive.theoreticalUnderpinnings, '',
+                '#### Real-World Application', '', deepDive.realWorldApplication, '',
+                '#### Interdisciplinary Connection', '', deepDive.interdisciplinaryConnection, ''
+            );
+        }
+    });
+
+    lines.push('## Practice Questions', '');
+    source.questions.forEach((q, i) => {
+        lines.push(`${i + 1}. **[${q.type}]** ${q.question}`);
+        if (q.rivalTheory) lines.push(`   - Rival theory: ${q.rivalTheory}`);
+        q.options?.forEach((opt, idx) => lines.push(`   - ${idx === q.correctOptionIndex ? '**' : ''}${opt}${idx === q.correctOptionIndex ? '**' : ''}`));
+        lines.push('', `   *${q.explanation}*`, '');
+    });
+
+    return lines.join('\n');
+};
+
+// RFC 4180: quote every field and double embedded quotes
+const csvField = (value: string | number | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export const toQuestionsCsv = (questions: GameQuestion[]): string => {
+    const header = ['id', 'type', 'difficulty', 'question', 'rival_theory', 'options', 'correct_answer', 'explanation'];
+    const rows = questions.map(q => [
+        q.id,
+        q.type,
+        q.difficulty,
+        q.question,
+        q.rivalTheory,
+        q.options?.join(' | '),
+        q.options?.[q.correctOptionIndex ?? -1],
+        q.explanation
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n');
+};
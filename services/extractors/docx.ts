@@ -0,0 +1,46 @@
+import { Extractor, ExtractionError } from "./registry";
+import { openZip } from "./zip";
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Heading1..Heading6 become Markdown headings so the chunker splits lecture notes by section
+const headingLevel = (style: string | null): number => {
+    if (!style) return 0;
+    if (/^title$/i.test(style)) return 1;
+    const match = /^heading\s?([1-6])$/i.exec(style);
+    return match ? Number(match[1]) : 0;
+};
+
+const paragraphText = (paragraph: Element): string => {
+    let text = '';
+    for (const node of Array.from(paragraph.getElementsByTagNameNS(WORD_NS, '*'))) {
+        if (node.localName === 't') text += node.textContent ?? '';
+        else if (node.localName === 'tab') text += ' ';
+        else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    }
+    return text.trim();
+};
+
+export const docxExtractor: Extractor = {
+    id: 'docx',
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extract: async file => {
+        const zip = openZip(await file.arrayBuffer());
+        const xml = await zip.readText('word/document.xml');
+        if (!xml) throw new ExtractionError(`"${file.name}" has no document body. Is it a Word document?`);
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+        const lines: string[] = [];
+        for (const paragraph of Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p'))) {
+            const text = paragraphText(paragraph);
+            if (!text) continue;
+            const style = paragraph.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') ?? null;
+            const level = headingLevel(style);
+            const isListItem = paragraph.getElementsByTagNameNS(WORD_NS, 'numPr').length > 0;
+            lines.push(level ? `${'#'.repeat(level)} ${text}` : isListItem ? `- ${text}` : text);
+        }
+        return { type: 'text', content: lines.join('\n\n'), fileName: file.name };
+    }
+};
@@ -0,0 +1,51 @@
+import { Extractor, ExtractionError } from "./registry";
+import { htmlToText } from "./markup";
+import { openZip } from "./zip";
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Resolves a manifest href against the directory of the package document
+const resolvePath = (base: string, href: string) => {
+    const parts = base.split('/').slice(0, -1);
+    for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+        if (segment === '..') parts.pop();
+        else if (segment !== '.') parts.push(segment);
+    }
+    return parts.join('/');
+};
+
+export const epubExtractor: Extractor = {
+    id: 'epub',
+    label: 'EPUB',
+    extensions: ['.epub'],
+    mimeTypes: ['application/epub+zip'],
+    extract: async file => {
+        const zip = openZip(await file.arrayBuffer());
+        const container = await zip.readText('META-INF/container.xml');
+        const packagePath = container && parseXml(container).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+        const packageXml = packagePath && await zip.readText(packagePath);
+        if (!packagePath || !packageXml) throw new ExtractionError(`"${file.name}" is missing its EPUB package document.`);
+        const pkg = parseXml(packageXml);
+
+        const manifest = new Map<string, string>();
+        for (const item of Array.from(pkg.getElementsByTagName('item'))) {
+            const id = item.getAttribute('id');
+            const href = item.getAttribute('href');
+            if (id && href && /html/.test(item.getAttribute('media-type') ?? '')) manifest.set(id, href);
+        }
+
+        // Chapters in reading (spine) order
+        const chapters: string[] = [];
+        for (const ref of Array.from(pkg.getElementsByTagName('itemref'))) {
+            const href = manifest.get(ref.getAttribute('idref') ?? '');
+            if (!href) continue;
+            const markup = await zip.readText(resolvePath(packagePath, href));
+            const text = markup ? htmlToText(markup) : '';
+            if (text) chapters.push(text);
+        }
+
+        const title = pkg.getElementsByTagName('dc:title')[0]?.textContent?.trim();
+        const body = chapters.join('\n\n');
+        return { type: 'text', content: title ? `# ${title}\n\n${body}` : body, fileName: file.name };
+    }
+};
@@ -0,0 +1,17 @@
+import { Extractor } from "./registry";
+import { htmlTitle, htmlToText } from "./markup";
+
+export const htmlExtractor: Extractor = {
+    id: 'html',
+    label: 'HTML',
+    extensions: ['.html', '.htm', '.xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    extract: async file => {
+        const markup = await file.text();
+        const body = htmlToText(markup);
+        const title = htmlTitle(markup);
+        // Keep the page title unless the article already opens with it
+        const content = title && !body.includes(title) ? `# ${title}\n\n${body}` : body;
+        return { type: 'text', content, fileName: file.name };
+    }
+};
@@ -0,0 +1,13 @@
+import { registerExtractor } from "./registry";
+import { imageExtractor, textExtractor } from "./passthrough";
+import { pdfExtractor } from "./pdf";
+import { htmlExtractor } from "./html";
+import { docxExtractor } from "./docx";
+import { epubExtractor } from "./epub";
+
+export * from "./registry";
+export { fetchFile } from "./url";
+export { renderPdfPage, selectPages } from "./pdf";
+
+// Built-in formats, in the order they are listed on the upload screen
+[pdfExtractor, textExtractor, docxExtractor, htmlExtractor, epubExtractor, imageExtractor].forEach(registerExtractor);
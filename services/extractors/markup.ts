@@ -0,0 +1,48 @@
+// Flattens HTML/XHTML into plain text with Markdown headings and list markers, so the chunker can
+// still split on sections. Page chrome (navigation, scripts, forms) is dropped.
+const SKIPPED = 'script, style, noscript, template, nav, header, footer, aside, form, iframe, svg';
+const BLOCKS = new Set([
+    'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'LI', 'MAIN',
+    'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'TD', 'TH', 'TR', 'UL'
+]);
+
+export const htmlToText = (markup: string): string => {
+    const doc = new DOMParser().parseFromString(markup, 'text/html');
+    doc.querySelectorAll(SKIPPED).forEach(el => el.remove());
+    // Saved articles usually wrap the content itself in <article> or <main>
+    const root = doc.querySelector('article') ?? doc.querySelector('main') ?? doc.body;
+    if (!root) return '';
+
+    const blocks: string[] = [];
+    let line = '';
+    const flush = () => {
+        const text = line.replace(/\s+/g, ' ').trim();
+        if (text && !/^(#+|-)$/.test(text)) blocks.push(text);
+        line = '';
+    };
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            line += node.textContent ?? '';
+            return;
+        }
+        if (!(node instanceof Element)) return;
+        const tag = node.tagName.toUpperCase();
+        if (tag === 'BR') {
+            flush();
+            return;
+        }
+        const heading = /^H([1-6])$/.exec(tag);
+        const isBlock = !!heading || BLOCKS.has(tag);
+        if (isBlock) flush();
+        if (heading) line += `${'#'.repeat(Number(heading[1]))} `;
+        if (tag === 'LI') line += '- ';
+        node.childNodes.forEach(walk);
+        if (isBlock) flush();
+    };
+    walk(root);
+    flush();
+    return blocks.join('\n\n');
+};
+
+export const htmlTitle = (markup: string): string | undefined =>
+    new DOMParser().parseFromString(markup, 'text/html').querySelector('title')?.textContent?.trim() || undefined;
@@ -0,0 +1,36 @@
+import { Extractor } from "./registry";
+
+// Formats the model reads directly: the file travels as a base64 inline part.
+// PDFs only fall back to this when they have no text layer (see ./pdf).
+const toBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    // Chunked so large files don't overflow the argument limit of fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+export const inline = (file: File, mimeType: string) => file.arrayBuffer().then(buffer => ({
+    type: 'file' as const,
+    content: toBase64(buffer),
+    mimeType,
+    fileName: file.name
+}));
+
+export const textExtractor: Extractor = {
+    id: 'text',
+    label: 'TXT, MD',
+    extensions: ['.txt', '.md', '.markdown'],
+    mimeTypes: ['text/plain', 'text/markdown'],
+    extract: async file => ({ type: 'text', content: await file.text(), fileName: file.name })
+};
+
+export const imageExtractor: Extractor = {
+    id: 'image',
+    label: 'PNG, JPEG',
+    extensions: ['.png', '.jpg', '.jpeg'],
+    mimeTypes: ['image/png', 'image/jpeg'],
+    extract: file => inline(file, file.type === 'image/png' || /\.png$/i.test(file.name) ? 'image/png' : 'image/jpeg')
+};
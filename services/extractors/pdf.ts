@@ -0,0 +1,75 @@
+import { GlobalWorkerOptions, PDFDocumentProxy, getDocument, version } from 'pdfjs-dist';
+import { InputContext, PageSpan } from "../../types";
+import { Extractor } from "./registry";
+import { inline } from "./passthrough";
+
+// The worker comes from the CDN build matching the bundled library, so it loads under both Vite
+// and the import-map build without bundler configuration
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+
+// Scanned PDFs have little or no text layer. Below this many characters per page the PDF is sent
+// to the model as a file instead, as before.
+const MIN_CHARS_PER_PAGE = 40;
+
+// Parsed once per File, so page previews don't re-parse the document
+const parsed = new WeakMap<File, Promise<PDFDocumentProxy>>();
+const openPdf = (file: File) => {
+    if (!parsed.has(file)) parsed.set(file, file.arrayBuffer().then(data => getDocument({ data }).promise));
+    return parsed.get(file)!;
+};
+
+const pageText = async (pdf: PDFDocumentProxy, pageNumber: number) => {
+    const { items } = await (await pdf.getPage(pageNumber)).getTextContent();
+    return items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+        .join('')
+        .replace(/[ \t]+\n/g, '\n')
+        .trim();
+};
+
+// Extracted text is what every later call sends, so the PDF binary is uploaded once at most
+export const pdfExtractor: Extractor = {
+    id: 'pdf',
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    extract: async file => {
+        const pdf = await openPdf(file);
+        let content = '';
+        const pages: PageSpan[] = [];
+        for (let page = 1; page <= pdf.numPages; page++) {
+            const text = await pageText(pdf, page);
+            if (content) content += '\n\n';
+            pages.push({ page, start: content.length, end: content.length + text.length });
+            content += text;
+        }
+        if (content.replace(/\s/g, '').length < MIN_CHARS_PER_PAGE * pdf.numPages) {
+            return inline(file, 'application/pdf');
+        }
+        return { type: 'text', content, fileName: file.name, pages };
+    }
+};
+
+// Narrows extracted PDF text to an inclusive page range. Page numbers keep referring to the original PDF.
+export const selectPages = (context: InputContext, from: number, to: number): InputContext => {
+    const selected = context.pages?.filter(p => p.page >= from && p.page <= to) ?? [];
+    if (selected.length === 0 || selected.length === context.pages!.length) return context;
+    const start = selected[0].start;
+    return {
+        ...context,
+        content: context.content.slice(start, selected[selected.length - 1].end),
+        fileName: `${context.fileName ?? 'PDF'} (pp. ${from}-${to})`,
+        pages: selected.map(p => ({ ...p, start: p.start - start, end: p.end - start }))
+    };
+};
+
+// Renders one page to a PNG data URL `width` pixels wide
+export const renderPdfPage = async (file: File, pageNumber: number, width: number): Promise<string> => {
+    const page = await (await openPdf(file)).getPage(pageNumber);
+    const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    return canvas.toDataURL('image/png');
+};
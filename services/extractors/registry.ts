@@ -0,0 +1,58 @@
+import { InputContext } from "../../types";
+
+// Turns an uploaded file into an InputContext. Text formats are extracted locally so chunking,
+// retrieval and citation anchoring work on them; PDFs and images are passed inline to the model.
+export interface Extractor {
+    readonly id: string;
+    readonly label: string; // Shown in the upload hint, e.g. "DOCX"
+    readonly extensions: string[]; // Lower-case with the leading dot
+    readonly mimeTypes: string[];
+    extract(file: File): Promise<InputContext>;
+}
+
+export class ExtractionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExtractionError';
+    }
+}
+
+const extractors: Extractor[] = [];
+
+// Registering an id again replaces the earlier extractor
+export const registerExtractor = (extractor: Extractor) => {
+    const existing = extractors.findIndex(e => e.id === extractor.id);
+    if (existing >= 0) extractors.splice(existing, 1, extractor);
+    else extractors.push(extractor);
+};
+
+const extensionOf = (name: string) => name.toLowerCase().match(/\.[^./]+$/)?.[0] ?? '';
+
+// The extension wins over the MIME type: browsers report "" for .md and vary on .docx/.epub.
+// URLs without a useful extension fall back to the Content-Type the proxy passed along.
+export const findExtractor = (file: File): Extractor | undefined =>
+    extractors.find(e => e.extensions.includes(extensionOf(file.name)))
+    ?? extractors.find(e => e.mimeTypes.includes(file.type.split(';')[0].trim()));
+
+export const supportedFormats = () => extractors.map(e => e.label).join(', ');
+
+export const acceptedFileTypes = () => extractors.flatMap(e => e.extensions).join(',');
+
+export const extractFile = async (file: File): Promise<InputContext> => {
+    const extractor = findExtractor(file);
+    if (!extractor) {
+        throw new ExtractionError(`"${file.name}" is not a supported format. Supported: ${supportedFormats()}.`);
+    }
+    let context: InputContext;
+    try {
+        context = await extractor.extract(file);
+    } catch (e) {
+        if (e instanceof ExtractionError) throw e;
+        console.error(e);
+        throw new ExtractionError(`"${file.name}" could not be read as ${extractor.label}. The file may be damaged.`);
+    }
+    if (context.type === 'text' && context.content.trim().length === 0) {
+        throw new ExtractionError(`No readable text was found in "${file.name}".`);
+    }
+    return { ...context, fileName: context.fileName ?? file.name };
+};
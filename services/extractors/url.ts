@@ -0,0 +1,33 @@
+import { ExtractionError } from "./registry";
+
+// Served by the fetch proxy plugin in server/fetchProxy.ts; browsers can't read most sites directly (CORS)
+export const FETCH_PROXY_PATH = '/api/fetch';
+
+// Downloads a pasted address as a File, ready for extractFile
+export const fetchFile = async (address: string, signal?: AbortSignal): Promise<File> => {
+    let url: URL;
+    try {
+        url = new URL(address.trim());
+    } catch {
+        throw new ExtractionError('That doesn\'t look like a web address. Include the https:// prefix.');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ExtractionError('Only http and https addresses can be fetched.');
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(`${FETCH_PROXY_PATH}?url=${encodeURIComponent(url.href)}`, { signal });
+    } catch (e) {
+        if (signal?.aborted) throw e;
+        throw new ExtractionError('The local fetch proxy is not reachable. Run the app through `npm run dev` or `npm run preview`.');
+    }
+    if (!response.ok) {
+        const reason = (await response.text()).slice(0, 200);
+        throw new ExtractionError(`Could not fetch ${url.host} (${response.status}${reason ? `: ${reason}` : ''}).`);
+    }
+
+    // The extension in the path picks the extractor when there is one, otherwise the Content-Type does
+    const name = decodeURIComponent(url.pathname.split('/').filter(Boolean).pop() ?? '') || url.host;
+    return new File([await response.blob()], name, { type: response.headers.get('content-type') ?? '' });
+};
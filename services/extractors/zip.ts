@@ -0,0 +1,76 @@
+// Minimal ZIP reader for DOCX and EPUB containers. Inflates with the browser's DecompressionStream,
+// so no archive library is needed. ZIP64 and encrypted entries are not supported.
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+    method: number;
+    compressedSize: number;
+    localOffset: number;
+}
+
+export interface ZipArchive {
+    names: string[];
+    read(name: string): Promise<Uint8Array | null>;
+    readText(name: string): Promise<string | null>;
+}
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    const decoder = new TextDecoder();
+
+    // The end-of-central-directory record sits at the very end, before an optional comment (max 64 KiB)
+    let eocd = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error('Not a ZIP archive');
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = view.getUint32(eocd + 16, true);
+    const count = view.getUint16(eocd + 10, true);
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localOffset: view.getUint32(offset + 42, true)
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    const read = async (name: string): Promise<Uint8Array | null> => {
+        const entry = entries.get(name);
+        if (!entry) return null;
+        const local = entry.localOffset;
+        if (view.getUint32(local, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt ZIP entry ${name}`);
+        const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+        const data = bytes.subarray(start, start + entry.compressedSize);
+        if (entry.method === 0) return data;
+        if (entry.method === 8) return inflate(data);
+        throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+    };
+
+    return {
+        names: [...entries.keys()],
+        read,
+        readText: async name => {
+            const data = await read(name);
+            return data ? decoder.decode(data) : null;
+        }
+    };
+};
@@ -1,197 +1,845 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { StudySessionData, QuestionType, InputContext, DeepDiveContent, ChallengeResult } from "../types";
+import { Type, Schema } from "@google/genai";
+import { StudySessionData, QuestionType, InputContext, ChatTurn, TutorAction, RelationType, ConceptRelation, GameQuestion, DeepDiveContent, ChallengeResult, CounterTheoryResult, DeepDiveSection, GenerationSettings, StudyConcept, IngestionProgress, SessionPreview, Rubric, ConceptChallenge, CriterionScore, SourceCitation } from "../types";
+import { AUDIENCE_LABELS, DEFAULT_GENERATION_SETTINGS } from "../constants";
+import { ContentPart, LLMProvider, StructuredRequest } from "./llm/provider";
+import { CHUNKING_THRESHOLD, chunkText, mergeConcepts, needsChunking } from "./chunker";
+import { anchorCitations, anchorSessionCitations } from "./citations";
+import { budgetedText, describeDocuments, documentAt, documentContext, fileDocuments, isMultiDocument, tagSources } from "./documents";
+import { retrievePassages } from "./retrieval";
+import { sanitizeRelations } from "./conceptGraph";
+import { RawGrade, ResponseValidationError, ValidationResult, Validator, validateChallenge, validateConcepts, validateCounterTheoryGrade, validateDeepDive, validateGrade, validateQuestion, validateQuestions, validateSession } from "./validation";
+import { COUNTER_THEORY_RUBRIC, isPassing, resolveRubric, weightedScore } from "./grading";
+import { readResponse, responseKey, writeResponse } from "./responseCache";
+import { isComplete, parsePartialJson } from "./partialJson";
 
-const responseSchema: Schema = {
+const totalQuestions = (settings: GenerationSettings) =>
+  Object.values(settings.questionMix).reduce((sum, n) => sum + n, 0);
+
+// Multi-document sessions also ask which source each citation and item comes from
+const sourceIdsOf = (input: InputContext) => input.documents?.map(d => d.id);
+
+const sourcesSchema = (sourceIds: string[]): Schema => ({
+  type: Type.ARRAY,
+  description: "Ids of the source documents this item draws on, e.g. S1.",
+  items: { type: Type.STRING, enum: sourceIds }
+});
+
+const citationProperties = (sourceIds?: string[]): Record<string, Schema> => ({
+  quote: { type: Type.STRING, description: "Verbatim span copied exactly from the source, max 300 characters." },
+  page: { type: Type.INTEGER, description: "1-based page number for PDF sources, 0 for text." },
+  ...(sourceIds && { source: { type: Type.STRING, enum: sourceIds, description: "Id of the source document quoted." } })
+});
+
+const buildCitationsSchema = (sourceIds?: string[]): Schema => ({
+  type: Type.ARRAY,
+  description: "1-3 verbatim source passages that support this item.",
+  items: { type: Type.OBJECT, properties: citationProperties(sourceIds), required: ["quote", "page"] }
+});
+
+const rubricSchema: Schema = {
   type: Type.OBJECT,
+  description: "Grading rubric for free-response items.",
   properties: {
-    title: {
-      type: Type.STRING,
-      description: "A cool, short academic title for the session based on the content."
-    },
-    summary: {
-      type: Type.STRING,
-      description: "A concise executive summary of the provided text (max 3 sentences)."
-    },
-    concepts: {
+    keyPoints: {
       type: Type.ARRAY,
-      description: "6-8 core concepts extracted from the text for study flashcards.",
+      description: "2-5 key points a complete answer must make.",
       items: {
         type: Type.OBJECT,
         properties: {
-            id: { type: Type.STRING },
-            term: { type: Type.STRING },
-            definition: { type: Type.STRING, description: "Academic definition." },
-            analogy: { type: Type.STRING, description: "A real-world analogy to help understand the concept easily." }
+          id: { type: Type.STRING, description: "Short slug, e.g. 'kp1'." },
+          description: { type: Type.STRING },
+          weight: { type: Type.INTEGER, description: "Relative importance 1-5.", minimum: 1, maximum: 5 }
         },
-        required: ["id", "term", "definition", "analogy"]
+        required: ["id", "description", "weight"]
       }
     },
-    questions: {
+    misconceptions: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Common wrong ideas a grader should penalize." }
+  },
+  required: ["keyPoints", "misconceptions"]
+};
+
+const buildConceptItemSchema = (sourceIds?: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+      id: { type: Type.STRING },
+      term: { type: Type.STRING },
+      definition: { type: Type.STRING, description: "Academic definition." },
+      analogy: { type: Type.STRING, description: "A real-world analogy to help understand the concept easily." },
+      citations: buildCitationsSchema(sourceIds),
+      ...(sourceIds && { sources: sourcesSchema(sourceIds) })
+  },
+  required: ["id", "term", "definition", "analogy", "citations", ...(sourceIds ? ["sources"] : [])]
+});
+
+const relationsSchema: Schema = {
+  type: Type.ARRAY,
+  description: "Typed, directed relationships between the concepts, referenced by concept id.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      from: { type: Type.STRING, description: "Source concept id." },
+      to: { type: Type.STRING, description: "Target concept id." },
+      type: { type: Type.STRING, enum: Object.values(RelationType) }
+    },
+    required: ["from", "to", "type"]
+  }
+};
+
+const RELATION_INSTRUCTIONS = `- Map how the concepts relate using their ids: PREREQUISITE_OF (must be understood first),
+      PART_OF (component of a larger concept), CONTRASTS_WITH (commonly confused or opposed), CAUSES.
+      Only include relationships the source supports.`;
+
+const buildQuestionItemSchema = (settings: GenerationSettings, sourceIds?: string[]): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      type: { type: Type.STRING, enum: [QuestionType.CONCEPT_CHECK, QuestionType.SOCRATIC_DEFENSE, QuestionType.COUNTER_THEORY] },
+      question: { type: Type.STRING },
+      rivalTheory: { type: Type.STRING, description: "COUNTER_THEORY only: a plausible but flawed rival theory that contradicts the source. Empty for others." },
+      options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "4 options for CONCEPT_CHECK, empty for others" },
+      correctOptionIndex: { type: Type.INTEGER, description: "Index of correct option for CONCEPT_CHECK, -1 for others" },
+      explanation: { type: Type.STRING, description: "Deep academic explanation of the answer." },
+      difficulty: { type: Type.INTEGER, description: `Rating 1-10, centered on ${settings.difficulty}`, minimum: 1, maximum: 10 },
+      citations: buildCitationsSchema(sourceIds),
+      rubric: rubricSchema,
+      ...(sourceIds && { sources: sourcesSchema(sourceIds) })
+    },
+    required: ["id", "type", "question", "explanation", "difficulty", "citations", ...(sourceIds ? ["sources"] : [])]
+});
+
+const buildQuestionsSchema = (settings: GenerationSettings, sourceIds?: string[]): Schema => ({
+  type: Type.ARRAY,
+  description: `${totalQuestions(settings)} assessment items.`,
+  items: buildQuestionItemSchema(settings, sourceIds)
+});
+
+const titleSchema: Schema = {
+  type: Type.STRING,
+  description: "A cool, short academic title for the session based on the content."
+};
+
+const summarySchema: Schema = {
+  type: Type.STRING,
+  description: "A concise executive summary of the provided text (max 3 sentences)."
+};
+
+const buildSessionSchema = (settings: GenerationSettings, sourceIds?: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: titleSchema,
+    summary: summarySchema,
+    concepts: {
       type: Type.ARRAY,
-      description: "3 assessment items.",
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          type: { type: Type.STRING, enum: [QuestionType.CONCEPT_CHECK, QuestionType.SOCRATIC_DEFENSE, QuestionType.COUNTER_THEORY] },
-          question: { type: Type.STRING },
-          options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "4 options for CONCEPT_CHECK, empty for others" },
-          correctOptionIndex: { type: Type.INTEGER, description: "Index of correct option for CONCEPT_CHECK, -1 for others" },
-          explanation: { type: Type.STRING, description: "Deep academic explanation of the answer." },
-          difficulty: { type: Type.INTEGER, description: "Rating 1-10" }
-        },
-        required: ["id", "type", "question", "explanation", "difficulty"]
-      }
-    }
+      description: `${settings.conceptCount} core concepts extracted from the text for study flashcards.`,
+      items: buildConceptItemSchema(sourceIds)
+    },
+    relations: relationsSchema,
+    questions: buildQuestionsSchema(settings, sourceIds)
   },
-  required: ["title", "summary", "concepts", "questions"]
+  required: ["title", "summary", "concepts", "relations", "questions"],
+  // Streamed in this order so the Data Core can open before the questions arrive
+  propertyOrdering: ["title", "summary", "concepts", "relations", "questions"]
+});
+
+const QUESTION_TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+  [QuestionType.CONCEPT_CHECK]: "CONCEPT_CHECK questions (Multiple Choice).",
+  [QuestionType.SOCRATIC_DEFENSE]: "SOCRATIC_DEFENSE questions (Open-ended thought experiment).",
+  [QuestionType.COUNTER_THEORY]: `COUNTER_THEORY questions: write a plausible rival theory in 'rivalTheory' that
+      contradicts the source through subtle flaws (overgeneralization, misattributed causation,
+      ignored evidence). The 'question' asks the student to rebut it. The 'explanation' lists the flaws.`
 };
 
-// Helper to construct parts for file or text
-const getParts = (input: InputContext, textPrompt: string) => {
+// Attached files of a multi-document set, in the order describeDocuments numbers them
+const attachmentParts = (input: InputContext): ContentPart[] =>
+    fileDocuments(input).map(d => ({ inlineData: { mimeType: d.mimeType!, data: d.data! } }));
+
+// Helper to construct parts for file or text. A multi-document set sends every document.
+const getParts = (input: InputContext, textPrompt: string): ContentPart[] => {
+    if (isMultiDocument(input)) {
+        const text = budgetedText(input, CHUNKING_THRESHOLD);
+        return [
+            ...attachmentParts(input),
+            { text: `${describeDocuments(input)}\n\n${text ? `Context: ${text}\n\n` : ''}${textPrompt}` }
+        ];
+    }
     if (input.type === 'file' && input.mimeType) {
         return [
             { inlineData: { mimeType: input.mimeType, data: input.content } },
             { text: textPrompt }
         ];
     }
-    return [{ text: `Context: ${input.content.substring(0, 30000)}\n\n${textPrompt}` }];
+    // Long texts are chunked at ingestion; concept-scoped calls narrow to their chunk first
+    return [{ text: `Context: ${input.content.substring(0, CHUNKING_THRESHOLD)}\n\n${textPrompt}` }];
+};
+
+// For grading: long text artifacts are narrowed to the passages most relevant to the query.
+// Binary artifacts can't be searched locally and are sent whole.
+const RETRIEVAL_THRESHOLD = 8000;
+const getGroundedParts = (input: InputContext, query: string, textPrompt: string): ContentPart[] => {
+    if (input.type !== 'text' || input.content.length <= RETRIEVAL_THRESHOLD) return getParts(input, textPrompt);
+    // Excerpts from a multi-document set are labelled with the document they came from
+    const excerpts = retrievePassages(input.content, query)
+        .map((passage, i) => {
+            const source = documentAt(input, input.content.indexOf(passage));
+            return `[Excerpt ${i + 1}${source ? ` · ${source.id}` : ''}]\n${passage}`;
+        })
+        .join('\n\n');
+    const sources = describeDocuments(input);
+    return [
+        ...attachmentParts(input),
+        { text: `${sources ? `${sources}\n\n` : ''}Context (excerpts relevant to the question):\n${excerpts}\n\n${textPrompt}` }
+    ];
+};
+
+// Streams a structured response, reporting the partially parsed value every time it grows
+const streamStructured = async (provider: LLMProvider, request: StructuredRequest, onPartial: (partial: unknown) => void): Promise<unknown> => {
+    let text = '';
+    for await (const chunk of provider.streamJSON(request)) {
+        text += chunk;
+        const partial = parsePartialJson(text);
+        if (partial !== undefined) onPartial(partial);
+    }
+    if (!text) throw new Error("No response text generated");
+    return JSON.parse(text);
 };
 
-export const generateGameSession = async (input: InputContext, apiKey: string): Promise<StudySessionData> => {
-  const ai = new GoogleGenAI({ apiKey });
-  
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Runs a structured request through its validator. Unrepairable responses are re-prompted with the
+// specific issues; after the last attempt the best partially valid value is accepted, and a response
+// with nothing usable raises a ResponseValidationError. With `onPartial` the first attempt is streamed;
+// repairs are not, so a preview never regresses to an empty response.
+const generateValidated = async <T>(provider: LLMProvider, request: StructuredRequest, validate: Validator<T>, shape: string, onPartial?: (partial: unknown) => void): Promise<T> => {
+    const attempt = async (parts: ContentPart[], stream = false): Promise<ValidationResult<T>> => {
+        try {
+            const attemptRequest = { ...request, parts };
+            return validate(stream && onPartial
+                ? await streamStructured(provider, attemptRequest, onPartial)
+                : await provider.generateJSON<unknown>(attemptRequest));
+        } catch (e) {
+            if (e instanceof SyntaxError) return { value: null, issues: ['response was not valid JSON'] };
+            throw e;
+        }
+    };
+
+    let best = await attempt(request.parts, true);
+    for (let i = 0; i < MAX_REPAIR_ATTEMPTS && best.issues.length > 0; i++) {
+        console.warn(`${shape} failed validation, re-prompting:`, best.issues);
+        const issues = best.issues.map(issue => `- ${issue}`).join('\n');
+        const retry = await attempt([
+            ...request.parts,
+            { text: `Your previous response failed validation:\n${issues}\nReturn a complete, corrected response that fixes every issue.` }
+        ]);
+        if (retry.value && (!best.value || retry.issues.length <= best.issues.length)) best = retry;
+    }
+
+    if (!best.value) throw new ResponseValidationError(shape, best.issues);
+    return best.value;
+};
+
+export interface GenerationOptions {
+    // Bypass the response cache and replace its entry with a fresh response
+    regenerate?: boolean;
+}
+
+// Generation calls are answered from the local response cache when the identical request has been
+// made before. Grading, follow-ups and tutor replies are deliberately not cached.
+const withCache = async <T>(provider: LLMProvider, request: StructuredRequest, options: GenerationOptions, generate: () => Promise<T>): Promise<T> => {
+    const key = await responseKey(provider, request);
+    if (!options.regenerate) {
+        const cached = await readResponse<T>(key);
+        if (cached !== undefined) return cached;
+    }
+    const value = await generate();
+    writeResponse(key, value).catch(e => console.warn('Response cache write failed:', e));
+    return value;
+};
+
+const generateCached = <T>(provider: LLMProvider, request: StructuredRequest, validate: Validator<T>, shape: string, options: GenerationOptions, onPartial?: (partial: unknown) => void): Promise<T> =>
+    withCache(provider, request, options, () => generateValidated(provider, request, validate, shape, onPartial));
+
+type Raw = Record<string, unknown>;
+const asRecord = (value: unknown): Raw => typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Raw : {};
+const asText = (value: unknown) => typeof value === 'string' ? value : '';
+const finishedItems = (value: unknown): unknown[] => Array.isArray(value) ? value.filter(isComplete) : [];
+
+// Only concepts the model has finished writing are shown, validated and anchored exactly as the
+// final response will be so their ids stay stable when the full session lands
+const previewConcepts = (value: unknown, input: InputContext): StudyConcept[] => {
+    const concepts = (validateConcepts(finishedItems(value)).value ?? []).map(c => ({ ...c, citations: anchorCitations(c.citations, input) }));
+    return tagSources({ title: '', summary: '', concepts, questions: [] }, input).concepts;
+};
+
+const buildQuestionLines = (settings: GenerationSettings) =>
+  (Object.entries(settings.questionMix) as [QuestionType, number][])
+    .filter(([, count]) => count > 0)
+    .map(([type, count]) => `    - Generate ${count} ${QUESTION_TYPE_INSTRUCTIONS[type]}`)
+    .join('\n');
+
+// Multi-document sessions: tag everything by source and make part of the suite compare the sources
+const buildSourceLines = (input: InputContext, settings: GenerationSettings) => isMultiDocument(input) ? `
+    Multi-source synthesis (the sources are listed above by id):
+    - Draw concepts from every source and tag each concept and question with the ids of the sources it rests on.
+    - At least ${Math.ceil(totalQuestions(settings) / 3)} questions must compare sources: where they agree, where they
+      disagree, or how one extends, applies or challenges another. Name the sources in those questions.
+` : '';
+
+export const generateGameSession = async (
+  input: InputContext,
+  provider: LLMProvider,
+  settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+  onProgress?: (progress: IngestionProgress) => void,
+  options: GenerationOptions = {}
+): Promise<StudySessionData> => {
+  if (needsChunking(input)) return generateChunkedSession(input, provider, settings, onProgress, options);
+
+  const questionLines = buildQuestionLines(settings);
+  const reportPartial = (partial: unknown) => {
+    const record = asRecord(partial);
+    const concepts = previewConcepts(record.concepts, input);
+    onProgress?.({
+      stage: 'GENERATING',
+      completed: 0,
+      total: 0,
+      chunks: [],
+      preview: {
+        title: asText(record.title),
+        summary: asText(record.summary),
+        concepts,
+        conceptsTotal: settings.conceptCount,
+        conceptsReady: Array.isArray(record.concepts) && isComplete(record.concepts) && concepts.length > 0,
+        questionsReady: finishedItems(record.questions).length,
+        questionsTotal: totalQuestions(settings)
+      }
+    });
+  };
+
   const instruction = `
     Analyze the following academic content. 
     Create a 'Neural Nexus' study guide and assessment suite.
-    Target audience: Graduate Students.
+    Target audience: ${AUDIENCE_LABELS[settings.audience]}.
+    Write all output in ${settings.language}.
     
     Phase 1: Extraction
-    - Extract 6-8 pivotal concepts.
-    - Provide a rigorous definition and a creative analogy for each.
+    - Extract exactly ${settings.conceptCount} pivotal concepts.
+    - Provide a definition pitched at the target audience and a creative analogy for each.
+    - Cite the passages each definition rests on, quoting the source verbatim.
+    ${RELATION_INSTRUCTIONS}
     
     Phase 2: Simulation (Assessment)
-    - Generate 2 CONCEPT_CHECK questions (Multiple Choice).
-    - Generate 1 SOCRATIC_DEFENSE question (Open-ended thought experiment).
-  `;
+${questionLines}
+    - Cite the passages that justify each question's explanation, quoting the source verbatim.
+    - Give every SOCRATIC_DEFENSE and COUNTER_THEORY question a rubric of weighted key points and common misconceptions.
+    - Target a difficulty of ${settings.difficulty}/10 for the target audience, varying by at most 2 points.
+${buildSourceLines(input, settings)}  `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: getParts(input, instruction) },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.2
-      }
-    });
+    const data = await generateCached(provider, {
+      parts: getParts(input, instruction),
+      schema: buildSessionSchema(settings, sourceIdsOf(input)),
+      temperature: 0.2
+    }, validateSession, 'study session', options, reportPartial);
+    data.relations = sanitizeRelations(data.relations, data.concepts);
+    return tagSources(anchorSessionCitations(data, input), input);
+  } catch (error) {
+    console.error(`${provider.name} Generation Error:`, error);
+    throw error;
+  }
+};
+
+// A segment without usable concepts is tolerated; the other segments still contribute
+const validateChunkExtraction: Validator<{ summary: string; concepts: StudyConcept[] }> = raw => {
+    const record = (raw ?? {}) as Record<string, unknown>;
+    const concepts = validateConcepts(record.concepts);
+    return {
+        value: { summary: typeof record.summary === 'string' ? record.summary : '', concepts: concepts.value ?? [] },
+        issues: concepts.issues
+    };
+};
+
+const validateSynthesis: Validator<Pick<StudySessionData, 'title' | 'summary' | 'questions'> & { relations: ConceptRelation[] }> = raw => {
+    const record = (raw ?? {}) as Record<string, unknown>;
+    const questions = validateQuestions(record.questions);
+    if (!questions.value) return { value: null, issues: questions.issues };
+    return {
+        value: {
+            title: typeof record.title === 'string' && record.title.trim() ? record.title.trim() : 'Untitled Session',
+            summary: typeof record.summary === 'string' ? record.summary : '',
+            relations: Array.isArray(record.relations) ? record.relations : [],
+            questions: questions.value
+        },
+        issues: questions.issues
+    };
+};
 
-    if (response.text) {
-      const data = JSON.parse(response.text) as StudySessionData;
-      data.concepts = data.concepts.map(c => ({...c, mastered: false}));
-      return data;
+// Long-document path: extract concepts chunk by chunk, merge them, then build the
+// assessment suite from the merged concepts and per-chunk summaries. Attached files of a
+// multi-document set are extracted whole as extra segments after the text chunks.
+const generateChunkedSession = async (
+  input: InputContext,
+  provider: LLMProvider,
+  settings: GenerationSettings,
+  onProgress?: (progress: IngestionProgress) => void,
+  options: GenerationOptions = {}
+): Promise<StudySessionData> => {
+  const chunks = chunkText(input.content);
+  const attachments = fileDocuments(input);
+  const segmentCount = chunks.length + attachments.length;
+  const perChunkCount = Math.max(2, Math.ceil(settings.conceptCount * 1.5 / segmentCount));
+  const status: IngestionProgress['chunks'] = [
+    ...chunks.map(chunk => ({ label: chunk.heading || `Segment ${chunk.index + 1}`, status: 'PENDING' as const })),
+    ...attachments.map(doc => ({ label: doc.fileName, status: 'PENDING' as const }))
+  ];
+  const report = (stage: IngestionProgress['stage'], completed: number, preview?: SessionPreview) =>
+    onProgress?.({ stage, completed, total: segmentCount, chunks: status.map(c => ({ ...c })), preview });
+
+  const chunkSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      summary: { type: Type.STRING, description: "2-sentence summary of this section." },
+      concepts: { type: Type.ARRAY, description: `Up to ${perChunkCount} pivotal concepts from this section.`, items: buildConceptItemSchema() }
+    },
+    required: ["summary", "concepts"]
+  };
+
+  const extracted: { summary: string; concepts: StudyConcept[] }[] = [];
+  try {
+    // Segment concepts are shown as they are found but may still be merged, so they are never "ready"
+    const extractionPreview = (): SessionPreview => ({
+      title: '',
+      summary: '',
+      concepts: extracted.flatMap(e => e.concepts),
+      conceptsTotal: settings.conceptCount,
+      conceptsReady: false,
+      questionsReady: 0,
+      questionsTotal: totalQuestions(settings)
+    });
+    for (const chunk of chunks) {
+      status[chunk.index].status = 'ACTIVE';
+      report('EXTRACTING', chunk.index, extractionPreview());
+      const instruction = `
+        This is section ${chunk.index + 1} of ${chunks.length}${chunk.heading ? ` ("${chunk.heading}")` : ''} of a longer academic document.
+        Target audience: ${AUDIENCE_LABELS[settings.audience]}. Write all output in ${settings.language}.
+        - Summarize the section.
+        - Extract up to ${perChunkCount} pivotal concepts introduced or developed here, each with a
+          definition pitched at the target audience, a creative analogy and verbatim citations.
+      `;
+      const result = await generateCached(provider, {
+        parts: getParts({ type: 'text', content: input.content.slice(chunk.start, chunk.end) }, instruction),
+        schema: chunkSchema,
+        temperature: 0.2
+      }, validateChunkExtraction, `segment ${chunk.index + 1} extraction`, options);
+      extracted.push({
+        summary: result.summary,
+        concepts: result.concepts.map(c => ({ ...c, sourceChunk: chunk.index }))
+      });
+      status[chunk.index].status = 'DONE';
     }
-    throw new Error("No response text generated");
+    for (const [i, doc] of attachments.entries()) {
+      const index = chunks.length + i;
+      status[index].status = 'ACTIVE';
+      report('EXTRACTING', index, extractionPreview());
+      const instruction = `
+        This is source ${doc.id} ("${doc.fileName}"), one of several documents studied together.
+        Target audience: ${AUDIENCE_LABELS[settings.audience]}. Write all output in ${settings.language}.
+        - Summarize the document.
+        - Extract up to ${perChunkCount} pivotal concepts it introduces or develops, each with a
+          definition pitched at the target audience, a creative analogy and verbatim citations.
+      `;
+      const result = await generateCached(provider, {
+        parts: getParts(documentContext(doc), instruction),
+        schema: chunkSchema,
+        temperature: 0.2
+      }, validateChunkExtraction, `${doc.id} extraction`, options);
+      extracted.push({
+        summary: `(${doc.id}) ${result.summary}`,
+        concepts: result.concepts.map(c => ({
+          ...c,
+          sources: [doc.id],
+          citations: c.citations?.map(citation => ({ ...citation, source: doc.id }))
+        }))
+      });
+      status[index].status = 'DONE';
+    }
+
+    const concepts = mergeConcepts(extracted.map(e => e.concepts), settings.conceptCount);
+    const anchoredConcepts = tagSources(
+      anchorSessionCitations({ title: '', summary: '', concepts, questions: [], sourceChunks: chunks }, input), input
+    ).concepts;
+    const synthesisPreview = (partial: unknown): SessionPreview => {
+      const record = asRecord(partial);
+      return {
+        title: asText(record.title),
+        summary: asText(record.summary),
+        concepts: anchoredConcepts,
+        conceptsTotal: settings.conceptCount,
+        conceptsReady: true,
+        questionsReady: finishedItems(record.questions).length,
+        questionsTotal: totalQuestions(settings)
+      };
+    };
+    report('SYNTHESIZING', segmentCount, synthesisPreview({}));
+    const sourcesOf = (c: StudyConcept) => c.sources?.length ? ` (${c.sources.join(', ')})` : '';
+    const digest = [
+      ...(isMultiDocument(input) ? [describeDocuments(input), ''] : []),
+      'Section summaries:',
+      ...extracted.map((e, i) => `${i + 1}. ${e.summary}`),
+      '',
+      'Core concepts:',
+      ...anchoredConcepts.map(c => `- [${c.id}]${sourcesOf(c)} ${c.term}: ${c.definition}`)
+    ].join('\n');
+
+    const instruction = `
+      The context is a digest of a long academic document: per-section summaries and the core concepts.
+      Create a 'Neural Nexus' assessment suite for it.
+      Target audience: ${AUDIENCE_LABELS[settings.audience]}.
+      Write all output in ${settings.language}.
+${buildQuestionLines(settings)}
+      - Target a difficulty of ${settings.difficulty}/10 for the target audience, varying by at most 2 points.
+      - Spread the questions across sections rather than concentrating on the first one.
+      - The digest is not the original text, so return an empty citations array for every question.
+      - Give every SOCRATIC_DEFENSE and COUNTER_THEORY question a rubric of weighted key points and common misconceptions.
+      ${RELATION_INSTRUCTIONS}
+${buildSourceLines(input, settings)}    `;
+    const synthesis = await generateCached(provider, {
+      parts: getParts({ type: 'text', content: digest }, instruction),
+      schema: {
+        type: Type.OBJECT,
+        properties: { title: titleSchema, summary: summarySchema, relations: relationsSchema, questions: buildQuestionsSchema(settings, sourceIdsOf(input)) },
+        required: ["title", "summary", "relations", "questions"],
+        propertyOrdering: ["title", "summary", "relations", "questions"]
+      },
+      temperature: 0.2
+    }, validateSynthesis, 'assessment suite', options, partial => report('SYNTHESIZING', segmentCount, synthesisPreview(partial)));
+
+    const relations = sanitizeRelations(synthesis.relations, concepts);
+    return tagSources(anchorSessionCitations({ ...synthesis, concepts, relations, sourceChunks: chunks }, input), input);
   } catch (error) {
-    console.error("Gemini Generation Error:", error);
+    console.error(`${provider.name} Chunked Generation Error:`, error);
     throw error;
   }
 };
 
-export const generateDeepDive = async (term: string, input: InputContext, apiKey: string): Promise<DeepDiveContent> => {
-    const ai = new GoogleGenAI({ apiKey });
+export type DeepDivePreview = Partial<Record<DeepDiveSection, string>>;
+
+export const generateDeepDive = async (
+    term: string,
+    input: InputContext,
+    provider: LLMProvider,
+    settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS,
+    options: GenerationOptions = {},
+    onPartial?: (preview: DeepDivePreview) => void
+): Promise<DeepDiveContent> => {
     const schema: Schema = {
         type: Type.OBJECT,
         properties: {
             theoreticalUnderpinnings: { type: Type.STRING, description: "Deep theoretical background." },
             realWorldApplication: { type: Type.STRING, description: "Concrete, complex example." },
-            interdisciplinaryConnection: { type: Type.STRING, description: "How this connects to other fields." }
+            interdisciplinaryConnection: { type: Type.STRING, description: "How this connects to other fields." },
+            citations: {
+                type: Type.ARRAY,
+                description: "Verbatim source passages supporting each section.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        section: { type: Type.STRING, enum: ["theoreticalUnderpinnings", "realWorldApplication", "interdisciplinaryConnection"] },
+                        ...citationProperties(sourceIdsOf(input))
+                    },
+                    required: ["section", "quote", "page"]
+                }
+            }
         },
-        required: ["theoreticalUnderpinnings", "realWorldApplication", "interdisciplinaryConnection"]
+        required: ["theoreticalUnderpinnings", "realWorldApplication", "interdisciplinaryConnection", "citations"],
+        propertyOrdering: ["theoreticalUnderpinnings", "realWorldApplication", "interdisciplinaryConnection", "citations"]
     };
 
-    const prompt = `Provide a graduate-level deep dive into the concept: "${term}" based on the provided text. Focus on nuance and advanced understanding.`;
+    const prompt = `Provide a deep dive into the concept: "${term}" based on the provided text, written for ${AUDIENCE_LABELS[settings.audience]} in ${settings.language}. Focus on nuance and the most advanced understanding that audience can reach. Where a section draws on the source, cite the passage verbatim.`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: getParts(input, prompt) },
-        config: { responseMimeType: "application/json", responseSchema: schema }
+    const reportPartial = onPartial && ((partial: unknown) => {
+        const record = asRecord(partial);
+        onPartial({
+            theoreticalUnderpinnings: asText(record.theoreticalUnderpinnings),
+            realWorldApplication: asText(record.realWorldApplication),
+            interdisciplinaryConnection: asText(record.interdisciplinaryConnection)
+        });
     });
+    return generateCached(provider, { parts: getParts(input, prompt), schema }, validateDeepDive, 'deep dive', options, reportPartial);
+};
 
-    if (response.text) return JSON.parse(response.text);
-    throw new Error("Deep dive generation failed");
+// Adaptive simulation: one new question aimed at a specific concept and difficulty
+export const generateFollowUpQuestion = async (
+    concept: StudyConcept,
+    type: QuestionType,
+    difficulty: number,
+    input: InputContext,
+    provider: LLMProvider,
+    settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS
+): Promise<GameQuestion> => {
+    const prompt = `Write one new assessment item about the concept "${concept.term}" (${concept.definition}).
+    Target audience: ${AUDIENCE_LABELS[settings.audience]}. Write all output in ${settings.language}.
+    - Item type: ${QUESTION_TYPE_INSTRUCTIONS[type]}
+    - Set its difficulty to exactly ${difficulty}/10 for the target audience.
+    - Cite the passages that justify the explanation, quoting the source verbatim.
+    - Give SOCRATIC_DEFENSE and COUNTER_THEORY items a rubric of weighted key points and common misconceptions.`;
+
+    // The requested type is authoritative, so validate the item as that type
+    const validateFollowUp: Validator<GameQuestion> = raw => validateQuestion({ ...(raw as object), type }, 'follow-up question');
+    const question = await generateValidated(provider, {
+        parts: getParts(input, prompt),
+        schema: buildQuestionItemSchema(settings, sourceIdsOf(input)),
+        temperature: 0.5
+    }, validateFollowUp, 'follow-up question');
+    return {
+        ...question,
+        id: `adaptive-${Date.now()}`,
+        type,
+        difficulty,
+        conceptId: concept.id
+    };
 };
 
-export const generateConceptChallenge = async (term: string, input: InputContext, apiKey: string): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey });
-    const prompt = `Generate ONE difficult, short-answer question to test the student's deep understanding of the concept: "${term}". Do not ask for a definition. Ask for an application or synthesis.`;
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: getParts(input, prompt) }
-    });
+// Instructor review: a fresh definition and analogy for one concept. The id and term are kept so
+// relations, follow-ups and the instructor's own edits elsewhere still point at it.
+export const regenerateConcept = async (
+    concept: StudyConcept,
+    otherTerms: string[],
+    input: InputContext,
+    provider: LLMProvider,
+    settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS
+): Promise<StudyConcept> => {
+    const prompt = `An instructor rejected this study concept. Rewrite it from the provided source.
+    Term: "${concept.term}"
+    Rejected definition: ${concept.definition}
+    Rejected analogy: ${concept.analogy}
+    Target audience: ${AUDIENCE_LABELS[settings.audience]}. Write all output in ${settings.language}.
+    - Keep the term. Write a clearer, more accurate definition and a different real-world analogy.
+    - Keep it distinct from the session's other concepts: ${otherTerms.join(', ') || 'none'}.
+    - Cite the passages that support the definition, quoting the source verbatim.`;
 
-    return response.text || "Explain this concept in your own words.";
+    const validateRewrite: Validator<StudyConcept> = raw => {
+        const result = validateConcepts([{ ...(raw as object), term: concept.term }]);
+        return { value: result.value?.[0] ?? null, issues: result.issues };
+    };
+    const rewritten = await generateValidated(provider, {
+        parts: getParts(input, prompt),
+        schema: buildConceptItemSchema(sourceIdsOf(input)),
+        temperature: 0.5
+    }, validateRewrite, 'concept');
+    return { ...rewritten, id: concept.id, sourceChunk: concept.sourceChunk };
+};
+
+// Instructor review: a replacement for one assessment item of the same type and difficulty
+export const regenerateQuestion = async (
+    question: GameQuestion,
+    input: InputContext,
+    provider: LLMProvider,
+    settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS
+): Promise<GameQuestion> => {
+    const { type, difficulty } = question;
+    const comparison = question.sources && question.sources.length > 1
+        ? `\n    - Like the rejected item, compare sources ${question.sources.join(' and ')} and name them in the question.`
+        : '';
+    const prompt = `An instructor rejected this assessment item. Write a replacement based on the provided source.
+    Rejected item: ${question.question}
+    Target audience: ${AUDIENCE_LABELS[settings.audience]}. Write all output in ${settings.language}.
+    - Item type: ${QUESTION_TYPE_INSTRUCTIONS[type]}
+    - Test the same idea from a different angle, at difficulty ${difficulty}/10 for the target audience.
+    - Cite the passages that justify the explanation, quoting the source verbatim.
+    - Give SOCRATIC_DEFENSE and COUNTER_THEORY items a rubric of weighted key points and common misconceptions.${comparison}`;
+
+    const validateReplacement: Validator<GameQuestion> = raw => validateQuestion({ ...(raw as object), type }, 'replacement question');
+    const replacement = await generateValidated(provider, {
+        parts: getParts(input, prompt),
+        schema: buildQuestionItemSchema(settings, sourceIdsOf(input)),
+        temperature: 0.5
+    }, validateReplacement, 'replacement question');
+    return { ...replacement, id: question.id, type, difficulty, conceptId: question.conceptId };
+};
+
+export const TUTOR_ACTION_PROMPTS: Record<TutorAction, string> = {
+    HINT: "Give me a hint that nudges me toward understanding this concept without giving the full explanation away.",
+    SIMPLER_ANALOGY: "Explain this concept again with a simpler, everyday analogy than the one I was given.",
+    QUIZ_ME: "Quiz me with one short question about this concept. Wait for my answer before revealing the solution."
+};
+
+// Multi-turn tutor scoped to one concept. The artifact rides along with the first turn so every reply stays grounded.
+export const streamTutorReply = (concept: StudyConcept, history: ChatTurn[], input: InputContext, provider: LLMProvider, settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS): AsyncIterable<string> => {
+    const systemInstruction = `You are a patient Socratic tutor helping ${AUDIENCE_LABELS[settings.audience]} master the concept "${concept.term}".
+Definition: ${concept.definition}
+Analogy already given: ${concept.analogy}
+Stay on this concept and ground every claim in the provided source material; say so when the source does not cover something.
+Prefer guiding questions over handing out answers. Keep replies short (under 150 words) and respond in ${settings.language}.`;
+
+    return provider.streamText({
+        parts: getParts(input, "Source material for this tutoring session is above."),
+        systemInstruction,
+        history,
+        temperature: 0.6
+    });
 };
 
-export const evaluateChallenge = async (question: string, userAnswer: string, input: InputContext, apiKey: string): Promise<ChallengeResult> => {
-    const ai = new GoogleGenAI({ apiKey });
+export const generateConceptChallenge = async (term: string, input: InputContext, provider: LLMProvider, settings: GenerationSettings = DEFAULT_GENERATION_SETTINGS, options: GenerationOptions = {}): Promise<ConceptChallenge> => {
     const schema: Schema = {
         type: Type.OBJECT,
         properties: {
-            passed: { type: Type.BOOLEAN, description: "True if the student demonstrated good understanding." },
-            score: { type: Type.INTEGER, description: "0-100" },
-            feedback: { type: Type.STRING, description: "Brief, constructive feedback." }
+            question: { type: Type.STRING, description: "The challenge question only." },
+            rubric: rubricSchema
         },
-        required: ["passed", "score", "feedback"]
+        required: ["question", "rubric"]
     };
+    const prompt = `Generate ONE difficult, short-answer question to test the student's deep understanding of the concept: "${term}". Do not ask for a definition. Ask for an application or synthesis. Pitch it at ${AUDIENCE_LABELS[settings.audience]} (difficulty ${settings.difficulty}/10) and write it in ${settings.language}. Include a rubric of the key points a strong answer must make.`;
 
-    const prompt = `
-        Question: ${question}
-        Student Answer: ${userAnswer}
-        Evaluate the answer strictly. High standards.
-    `;
+    const challenge = await generateCached(provider, { parts: getParts(input, prompt), schema }, validateChallenge, 'concept challenge', options);
+    return { question: challenge.question, rubric: resolveRubric(challenge.rubric) };
+};
+
+// Per-criterion scores shared by both graders; `rubric` supplies the ids the model must score
+const criteriaSchema = (rubric: Rubric): Schema => ({
+    type: Type.ARRAY,
+    description: "One entry per rubric key point.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            id: { type: Type.STRING, enum: rubric.keyPoints.map(k => k.id) },
+            score: { type: Type.INTEGER, description: "0-100: how fully the answer makes this point.", minimum: 0, maximum: 100 },
+            evidence: { type: Type.STRING, description: "The part of the student's answer that earned or lost the points." }
+        },
+        required: ["id", "score", "evidence"]
+    }
+});
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: getParts(input, prompt) },
-        config: { responseMimeType: "application/json", responseSchema: schema }
+const evidenceSchema = (input: InputContext): Schema => ({
+    type: Type.ARRAY,
+    description: "Verbatim source passages that establish the correct answer.",
+    items: { type: Type.OBJECT, properties: citationProperties(sourceIdsOf(input)), required: ["quote", "page"] }
+});
+
+const rubricLines = (rubric: Rubric) => rubric.keyPoints.map(k => `- [${k.id}] (weight ${k.weight}) ${k.description}`).join('\n');
+const misconceptionLines = (misconceptions: string[]) => misconceptions.length > 0
+    ? misconceptions.map(m => `- ${m}`).join('\n')
+    : '- (none listed)';
+
+// The model only scores criteria; the weighted score and the pass decision are computed here
+const scoreGrade = (rubric: Rubric, result: RawGrade, input: InputContext): ChallengeResult => {
+    const criteria: CriterionScore[] = rubric.keyPoints.map(point => {
+        const graded = result.criteria.find(c => c.id === point.id);
+        return { ...point, score: graded?.score ?? 0, evidence: graded?.evidence };
     });
+    const score = weightedScore(criteria);
 
-    if (response.text) return JSON.parse(response.text);
-    throw new Error("Evaluation failed");
+    return {
+        passed: isPassing(score),
+        score,
+        feedback: result.feedback,
+        criteria,
+        missedKeyPoints: result.missedKeyPoints,
+        misconceptionsDetected: result.misconceptionsDetected,
+        evidence: anchorCitations(result.evidence, input) ?? []
+    };
 };
 
-export const evaluateSocraticAnswer = async (question: string, userAnswer: string, context: InputContext, apiKey: string): Promise<{score: number, feedback: string}> => {
-    const ai = new GoogleGenAI({ apiKey });
-    
+// Shared grader for free-response answers (Sync Protocol and SOCRATIC_DEFENSE).
+// The model scores each rubric key point; the overall score and pass decision are computed here.
+// `onFeedback` receives the written feedback as it streams; scores only exist once the response completes
+export const gradeAnswer = async (
+    question: string,
+    rubric: Rubric | undefined,
+    userAnswer: string,
+    input: InputContext,
+    provider: LLMProvider,
+    onFeedback?: (feedback: string) => void
+): Promise<ChallengeResult> => {
+    const resolved = resolveRubric(rubric);
     const schema: Schema = {
         type: Type.OBJECT,
         properties: {
-            score: { type: Type.INTEGER, description: "Score from 0 to 100 based on accuracy and depth." },
-            feedback: { type: Type.STRING, description: "Constructive criticism in the tone of a strict professor." }
+            criteria: criteriaSchema(resolved),
+            missedKeyPoints: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Key points the answer omitted or got wrong." },
+            misconceptionsDetected: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Misconceptions present in the answer." },
+            evidence: evidenceSchema(input),
+            feedback: { type: Type.STRING, description: "Brief, constructive feedback in the tone of a strict professor." }
         },
-        required: ["score", "feedback"]
+        required: ["criteria", "missedKeyPoints", "misconceptionsDetected", "evidence", "feedback"],
+        propertyOrdering: ["feedback", "criteria", "missedKeyPoints", "misconceptionsDetected", "evidence"]
     };
 
-    const instruction = `
+    const prompt = `
         Question: ${question}
         Student Answer: ${userAnswer}
-        
-        Evaluate the student's answer based on the provided context. Be rigorous but helpful.
+
+        Rubric key points:
+${rubricLines(resolved)}
+
+        Known misconceptions:
+${misconceptionLines(resolved.misconceptions)}
+
+        Grade each key point independently against the provided context. Quote the source for evidence.
+        Do not award credit for points the answer does not make. High standards.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: getParts(context, instruction) },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: schema
-        }
-    });
+    const query = `${question}\n${resolved.keyPoints.map(k => k.description).join('\n')}`;
+    const result: RawGrade = await generateValidated(
+        provider,
+        { parts: getGroundedParts(input, query, prompt), schema },
+        validateGrade(resolved.keyPoints.map(k => k.id)),
+        'grade',
+        onFeedback && (partial => onFeedback(asText(asRecord(partial).feedback)))
+    );
+    return scoreGrade(resolved, result, input);
+};
 
-    if (response.text) {
-        return JSON.parse(response.text);
-    }
-    return { score: 0, feedback: "Analysis failed." };
-}
\ No newline at end of file
+// COUNTER_THEORY rebuttals are scored on COUNTER_THEORY_RUBRIC. The question's own rubric lists the
+// flaws a strong rebuttal should expose, and the result reports which of them the student found.
+export const evaluateCounterTheory = async (
+    question: string,
+    rivalTheory: string,
+    rubric: Rubric | undefined,
+    rebuttal: string,
+    input: InputContext,
+    provider: LLMProvider,
+    onFeedback?: (feedback: string) => void
+): Promise<CounterTheoryResult> => {
+    const schema: Schema = {
+        type: Type.OBJECT,
+        properties: {
+            criteria: criteriaSchema(COUNTER_THEORY_RUBRIC),
+            flawsIdentified: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Flaws in the rival theory the student correctly identified." },
+            flawsMissed: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Flaws in the rival theory the student did not address." },
+            misconceptionsDetected: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Misconceptions present in the rebuttal." },
+            evidence: evidenceSchema(input),
+            feedback: { type: Type.STRING, description: "Constructive critique in the tone of a debate adjudicator." }
+        },
+        required: ["criteria", "flawsIdentified", "flawsMissed", "misconceptionsDetected", "evidence", "feedback"],
+        propertyOrdering: ["feedback", "flawsIdentified", "flawsMissed", "criteria", "misconceptionsDetected", "evidence"]
+    };
+
+    const flaws = rubric?.keyPoints?.length
+        ? rubric.keyPoints.map(k => `- ${k.description}`).join('\n')
+        : '- (not listed; judge them from the provided context)';
+    const prompt = `
+        Rival Theory: ${rivalTheory}
+        Prompt: ${question}
+        Student Rebuttal: ${rebuttal}
+
+        The rival theory is deliberately flawed. Grade the rebuttal against this rubric:
+${rubricLines(COUNTER_THEORY_RUBRIC)}
+
+        Flaws a strong rebuttal exposes:
+${flaws}
+
+        Known misconceptions:
+${misconceptionLines(rubric?.misconceptions ?? [])}
+
+        Grade each criterion independently against the provided context. Quote the source for evidence.
+        Do not reward rhetoric that lacks substance.
+    `;
+
+    const result = await generateValidated(
+        provider,
+        { parts: getGroundedParts(input, `${rivalTheory}\n${question}`, prompt), schema },
+        validateCounterTheoryGrade(COUNTER_THEORY_RUBRIC.keyPoints.map(k => k.id)),
+        'counter theory evaluation',
+        onFeedback && (partial => onFeedback(asText(asRecord(partial).feedback)))
+    );
+    return { ...scoreGrade(COUNTER_THEORY_RUBRIC, result, input), flawsIdentified: result.flawsIdentified, flawsMissed: result.flawsMissed };
+};
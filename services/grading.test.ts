@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { FALLBACK_RUBRIC, isPassing, resolveRubric, weightedScore } from './grading';
+import { PASS_THRESHOLD } from '../constants';
+import { Rubric } from '../types';
+
+const criterion = (weight: number, score: number) => ({ id: `${weight}-${score}`, description: '', weight, score });
+
+describe('weightedScore', () => {
+    it('weights each criterion score', () => {
+        expect(weightedScore([criterion(3, 100), criterion(1, 0)])).toBe(75);
+    });
+
+    it('clamps criterion scores and handles an empty rubric', () => {
+        expect(weightedScore([criterion(1, 150), criterion(1, -50)])).toBe(50);
+        expect(weightedScore([])).toBe(0);
+    });
+});
+
+describe('resolveRubric', () => {
+    it('falls back when a rubric is missing or has no key points', () => {
+        expect(resolveRubric(undefined)).toBe(FALLBACK_RUBRIC);
+        expect(resolveRubric({ misconceptions: [] } as unknown as Rubric)).toBe(FALLBACK_RUBRIC);
+        const rubric: Rubric = { keyPoints: [{ id: 'k', description: 'd', weight: 1 }], misconceptions: [] };
+        expect(resolveRubric(rubric)).toBe(rubric);
+    });
+});
+
+it('passes at the threshold', () => {
+    expect(isPassing(PASS_THRESHOLD)).toBe(true);
+    expect(isPassing(PASS_THRESHOLD - 1)).toBe(false);
+});
@@ -0,0 +1,35 @@
+import { CriterionScore, Rubric } from "../types";
+import { PASS_THRESHOLD } from "../constants";
+
+// Used for questions generated before rubrics existed
+export const FALLBACK_RUBRIC: Rubric = {
+    keyPoints: [
+        { id: 'accuracy', description: 'Claims are factually consistent with the source material.', weight: 3 },
+        { id: 'depth', description: 'Goes beyond restating definitions to apply or synthesize the idea.', weight: 2 },
+        { id: 'reasoning', description: 'The argument is coherent and justified.', weight: 1 }
+    ],
+    misconceptions: []
+};
+
+// Every COUNTER_THEORY rebuttal is scored on the same criteria; the question's rubric only supplies the flaws to find
+export const COUNTER_THEORY_RUBRIC: Rubric = {
+    keyPoints: [
+        { id: 'flaws', description: 'Identifies the specific logical or empirical flaws in the rival theory, not just that it is wrong.', weight: 2 },
+        { id: 'defense', description: "Restores the source's actual position using accurate evidence from it.", weight: 2 },
+        { id: 'reasoning', description: 'The argument is coherent and does not introduce new errors.', weight: 1 }
+    ],
+    misconceptions: []
+};
+
+export const resolveRubric = (rubric?: Rubric): Rubric =>
+    rubric?.keyPoints?.length ? rubric : FALLBACK_RUBRIC;
+
+// Missing criteria count as zero, so a grader that skips a key point can't inflate the score
+export const weightedScore = (criteria: CriterionScore[]): number => {
+    const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+    if (totalWeight === 0) return 0;
+    const earned = criteria.reduce((sum, c) => sum + c.weight * Math.max(0, Math.min(100, c.score)), 0);
+    return Math.round(earned / totalWeight);
+};
+
+export const isPassing = (score: number) => score >= PASS_THRESHOLD;
@@ -0,0 +1,72 @@
+import { ProviderName } from "./provider";
+
+// Typed failures raised by the request layer. Providers throw these (or raw HTTP/SDK errors,
+// which `classifyError` maps) so callers can tell the student what to actually do about it.
+export class ProviderError extends Error {
+    constructor(message: string, readonly provider: ProviderName, readonly status?: number) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+}
+
+// 429: rate limit or exhausted quota on the key
+export class QuotaError extends ProviderError {
+    constructor(provider: ProviderName, message: string, readonly retryAfterMs?: number) {
+        super(message, provider, 429);
+        this.name = 'QuotaError';
+    }
+}
+
+// The model refused the prompt or its own output on safety grounds
+export class SafetyBlockError extends ProviderError {
+    constructor(provider: ProviderName, readonly reason: string) {
+        super(`Response blocked by ${provider} safety filters (${reason})`, provider);
+        this.name = 'SafetyBlockError';
+    }
+}
+
+// The service could not be reached, was overloaded (5xx) or did not answer in time
+export class NetworkError extends ProviderError {
+    constructor(provider: ProviderName, message: string, status?: number, readonly timedOut = false) {
+        super(message, provider, status);
+        this.name = 'NetworkError';
+    }
+}
+
+// The caller cancelled the request; never shown to the student
+export class RequestAbortedError extends Error {
+    constructor() {
+        super('Request was cancelled');
+        this.name = 'RequestAbortedError';
+    }
+}
+
+// Quota hits and service hiccups are worth retrying; safety blocks and bad requests are not
+export const isTransient = (error: unknown): boolean =>
+    error instanceof QuotaError || error instanceof NetworkError;
+
+const retryDelayFrom = (message: string): number | undefined => {
+    // Gemini embeds RetryInfo in the error body, e.g. "retryDelay": "21s"
+    const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return match ? Number(match[1]) * 1000 : undefined;
+};
+
+export const statusError = (provider: ProviderName, status: number, message: string, retryAfterMs?: number): Error => {
+    if (status === 429) return new QuotaError(provider, message, retryAfterMs ?? retryDelayFrom(message));
+    if (status >= 500) return new NetworkError(provider, message, status);
+    return new ProviderError(message, provider, status);
+};
+
+// Maps SDK and fetch failures onto the typed errors above. Unknown errors pass through unchanged.
+export const classifyError = (error: unknown, provider: ProviderName): unknown => {
+    if (error instanceof ProviderError || error instanceof RequestAbortedError) return error;
+    if (!(error instanceof Error)) return error;
+    if (error.name === 'AbortError') return new RequestAbortedError();
+    const status = (error as { status?: unknown }).status;
+    if (typeof status === 'number') return statusError(provider, status, error.message);
+    // fetch rejects with a TypeError when the connection itself fails
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
+        return new NetworkError(provider, error.message);
+    }
+    return error;
+};
@@ -0,0 +1,96 @@
+import { Content, FinishReason, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { LLMProvider, StructuredRequest, TextRequest } from "./provider";
+import { SafetyBlockError } from "./errors";
+
+const toContents = (request: TextRequest): Content[] | { parts: TextRequest['parts'] } => {
+    if (!request.history || request.history.length === 0) return { parts: request.parts };
+    const [first, ...rest] = request.history;
+    return [
+        { role: 'user', parts: [...request.parts, { text: first.text }] },
+        ...rest.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+    ];
+};
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII
+];
+
+// A blocked prompt has no candidates; a blocked answer stops with a safety finish reason
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new SafetyBlockError('gemini', blockReason);
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (BLOCKING_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockError('gemini', finishReason!);
+};
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini' as const;
+    readonly model: string;
+    private ai: GoogleGenAI;
+
+    constructor(apiKey: string, model?: string) {
+        this.ai = new GoogleGenAI({ apiKey });
+        this.model = model || DEFAULT_MODEL;
+    }
+
+    async generateJSON<T>(request: StructuredRequest): Promise<T> {
+        const response = await this.ai.models.generateContent({
+            model: this.model,
+            contents: { parts: request.parts },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: request.schema,
+                temperature: request.temperature,
+                abortSignal: request.signal
+            }
+        });
+
+        assertNotBlocked(response);
+        if (!response.text) throw new Error("No response text generated");
+        return JSON.parse(response.text) as T;
+    }
+
+    async *streamJSON(request: StructuredRequest): AsyncIterable<string> {
+        const stream = await this.ai.models.generateContentStream({
+            model: this.model,
+            contents: { parts: request.parts },
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: request.schema,
+                temperature: request.temperature,
+                abortSignal: request.signal
+            }
+        });
+
+        for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            if (chunk.text) yield chunk.text;
+        }
+    }
+
+    async generateText(request: TextRequest): Promise<string> {
+        const response = await this.ai.models.generateContent({
+            model: this.model,
+            contents: toContents(request),
+            config: { temperature: request.temperature, systemInstruction: request.systemInstruction, abortSignal: request.signal }
+        });
+
+        assertNotBlocked(response);
+        return response.text || '';
+    }
+
+    async *streamText(request: TextRequest): AsyncIterable<string> {
+        const stream = await this.ai.models.generateContentStream({
+            model: this.model,
+            contents: toContents(request),
+            config: { temperature: request.temperature, systemInstruction: request.systemInstruction, abortSignal: request.signal }
+        });
+
+        for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            if (chunk.text) yield chunk.text;
+        }
+    }
+}
@@ -0,0 +1,81 @@
+import { Schema, Type } from "@google/genai";
+import { ContentPart, LLMProvider, StructuredRequest, TextRequest } from "./provider";
+import { RequestAbortedError } from "./errors";
+
+const DEFAULT_ARRAY_LENGTH = 3;
+const STREAM_DELAY_MS = 20;
+const JSON_CHUNK_SIZE = 48;
+
+// Builds a value that satisfies the schema. Output depends only on the schema and
+// the position in the tree, so identical requests always yield identical responses.
+const fabricate = (schema: Schema, key: string, index: number): unknown => {
+    if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[index % schema.enum.length];
+    }
+
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const out: Record<string, unknown> = {};
+            for (const [prop, child] of Object.entries(schema.properties || {})) {
+                out[prop] = fabricate(child, prop, index);
+            }
+            return out;
+        }
+        case Type.ARRAY: {
+            const length = schema.minItems !== undefined ? Math.max(Number(schema.minItems), 1) : DEFAULT_ARRAY_LENGTH;
+            const itemKey = key.endsWith('s') ? key.slice(0, -1) : key;
+            return Array.from({ length }, (_, i) => fabricate(schema.items || { type: Type.STRING }, itemKey, i));
+        }
+        case Type.INTEGER:
+        case Type.NUMBER:
+            return schema.maximum ?? schema.minimum ?? 1;
+        case Type.BOOLEAN:
+            return true;
+        default:
+            return key === 'id' ? `mock-${index + 1}` : `Mock ${key} ${index + 1}`;
+    }
+};
+
+const lastText = (parts: ContentPart[]): string => {
+    for (let i = parts.length - 1; i >= 0; i--) {
+        const part = parts[i];
+        if ('text' in part) return part.text;
+    }
+    return '';
+};
+
+// Offline provider for local development and tests. Never touches the network.
+export class MockProvider implements LLMProvider {
+    readonly name = 'mock' as const;
+    readonly model = 'mock';
+
+    async generateJSON<T>(request: StructuredRequest): Promise<T> {
+        if (request.signal?.aborted) throw new RequestAbortedError();
+        return fabricate(request.schema, 'root', 0) as T;
+    }
+
+    async *streamJSON(request: StructuredRequest): AsyncIterable<string> {
+        const text = JSON.stringify(await this.generateJSON(request));
+        for (let i = 0; i < text.length; i += JSON_CHUNK_SIZE) {
+            await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+            if (request.signal?.aborted) throw new RequestAbortedError();
+            yield text.slice(i, i + JSON_CHUNK_SIZE);
+        }
+    }
+
+    async generateText(request: TextRequest): Promise<string> {
+        if (request.signal?.aborted) throw new RequestAbortedError();
+        const latest = request.history?.[request.history.length - 1]?.text ?? lastText(request.parts);
+        const prompt = latest.trim().split('\n')[0];
+        return `[MOCK] ${prompt.substring(0, 120)}`;
+    }
+
+    async *streamText(request: TextRequest): AsyncIterable<string> {
+        const text = await this.generateText(request);
+        for (const word of text.split(/(?<=\s)/)) {
+            await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+            if (request.signal?.aborted) throw new RequestAbortedError();
+            yield word;
+        }
+    }
+}
@@ -0,0 +1,141 @@
+import { Schema } from "@google/genai";
+import { ContentPart, LLMProvider, StructuredRequest, TextRequest } from "./provider";
+import { SafetyBlockError, statusError } from "./errors";
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Gemini schemas use upper-case type names and string-typed array bounds; JSON Schema does not.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const out: Record<string, unknown> = {};
+    if (schema.type) out.type = schema.type.toLowerCase();
+    if (schema.description) out.description = schema.description;
+    if (schema.enum) out.enum = schema.enum;
+    if (schema.minimum !== undefined) out.minimum = schema.minimum;
+    if (schema.maximum !== undefined) out.maximum = schema.maximum;
+    if (schema.minItems !== undefined) out.minItems = Number(schema.minItems);
+    if (schema.maxItems !== undefined) out.maxItems = Number(schema.maxItems);
+    if (schema.items) out.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        // OpenAI emits keys in declaration order, so honour Gemini's explicit ordering when present
+        const order = schema.propertyOrdering ?? [];
+        const entries = Object.entries(schema.properties).sort(([a], [b]) =>
+            (order.includes(a) ? order.indexOf(a) : order.length) - (order.includes(b) ? order.indexOf(b) : order.length));
+        out.properties = Object.fromEntries(entries.map(([key, value]) => [key, toJsonSchema(value)]));
+        out.required = schema.required || [];
+    }
+    return out;
+};
+
+const toMessageContent = (parts: ContentPart[]) => parts.map(part => {
+    if ('text' in part) return { type: 'text', text: part.text };
+    const dataUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    if (part.inlineData.mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: dataUrl } };
+    }
+    return { type: 'file', file: { filename: 'artifact', file_data: dataUrl } };
+});
+
+const toMessages = (request: TextRequest) => {
+    const messages: { role: string; content: unknown }[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    const [first, ...rest] = request.history ?? [];
+    const opening = first ? [...request.parts, { text: first.text }] : request.parts;
+    messages.push({ role: 'user', content: toMessageContent(opening) });
+    rest.forEach(turn => messages.push({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }));
+    return messages;
+};
+
+const jsonFormat = (request: StructuredRequest) => ({
+    type: 'json_schema',
+    json_schema: { name: 'response', schema: toJsonSchema(request.schema) }
+});
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = 'openai' as const;
+    readonly model: string;
+    private apiKey: string;
+    private baseUrl: string;
+
+    constructor(apiKey: string, model?: string, baseUrl?: string) {
+        this.apiKey = apiKey;
+        this.model = model || DEFAULT_MODEL;
+        this.baseUrl = (baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+    }
+
+    private async post(request: TextRequest, extra: Record<string, unknown>): Promise<Response> {
+        const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${this.apiKey}`
+            },
+            body: JSON.stringify({
+                model: this.model,
+                messages: toMessages(request),
+                temperature: request.temperature,
+                ...extra
+            }),
+            signal: request.signal
+        });
+
+        if (!response.ok) {
+            const retryAfter = Number(response.headers.get('retry-after'));
+            throw statusError(this.name, response.status,
+                `OpenAI-compatible request failed (${response.status}): ${await response.text()}`,
+                retryAfter > 0 ? retryAfter * 1000 : undefined);
+        }
+        return response;
+    }
+
+    private async complete(request: TextRequest, responseFormat?: unknown): Promise<string> {
+        const response = await this.post(request, { response_format: responseFormat });
+        const body = await response.json();
+        const choice = body.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new SafetyBlockError(this.name, 'content_filter');
+        if (choice?.message?.refusal) throw new SafetyBlockError(this.name, choice.message.refusal);
+        return choice?.message?.content || '';
+    }
+
+    async generateJSON<T>(request: StructuredRequest): Promise<T> {
+        const text = await this.complete(request, jsonFormat(request));
+        if (!text) throw new Error("No response text generated");
+        return JSON.parse(text) as T;
+    }
+
+    streamJSON(request: StructuredRequest): AsyncIterable<string> {
+        return this.streamCompletion(request, { response_format: jsonFormat(request) });
+    }
+
+    async generateText(request: TextRequest): Promise<string> {
+        return this.complete(request);
+    }
+
+    streamText(request: TextRequest): AsyncIterable<string> {
+        return this.streamCompletion(request, {});
+    }
+
+    // Parses the server-sent event stream of chat completion deltas
+    private async *streamCompletion(request: TextRequest, extra: Record<string, unknown>): AsyncIterable<string> {
+        const response = await this.post(request, { ...extra, stream: true });
+        if (!response.body) throw new Error("Streaming not supported by this endpoint");
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                const data = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                const choice = JSON.parse(data).choices?.[0];
+                if (choice?.finish_reason === 'content_filter') throw new SafetyBlockError(this.name, 'content_filter');
+                if (choice?.delta?.content) yield choice.delta.content;
+            }
+        }
+    }
+}
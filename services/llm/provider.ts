@@ -0,0 +1,91 @@
+import { Schema } from "@google/genai";
+import { ChatTurn } from "../../types";
+import { GeminiProvider } from "./geminiProvider";
+import { OpenAICompatibleProvider } from "./openaiProvider";
+import { MockProvider } from "./mockProvider";
+import { RequestLayer } from "./requestLayer";
+
+// A single piece of model input: either prompt text or an inline binary artifact (PDF, image).
+export type ContentPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface TextRequest {
+    parts: ContentPart[];
+    temperature?: number;
+    systemInstruction?: string;
+    // Multi-turn conversations: `parts` is prepended to the first (user) turn as grounding
+    history?: ChatTurn[];
+    // Aborting rejects the call with a RequestAbortedError
+    signal?: AbortSignal;
+}
+
+export interface StructuredRequest extends TextRequest {
+    // Schemas are written in the Gemini dialect; non-Gemini providers translate them.
+    schema: Schema;
+}
+
+export interface LLMProvider {
+    readonly name: ProviderName;
+    readonly model: string;
+    generateJSON<T>(request: StructuredRequest): Promise<T>;
+    // Raw JSON text as it is generated; see services/partialJson.ts for reading it before it completes
+    streamJSON(request: StructuredRequest): AsyncIterable<string>;
+    generateText(request: TextRequest): Promise<string>;
+    streamText(request: TextRequest): AsyncIterable<string>;
+}
+
+export type ProviderName = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+    provider: ProviderName;
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string; // OpenAI-compatible endpoints only
+}
+
+// Reads provider settings injected by vite.config.ts. Falls back to Gemini for existing setups.
+export const resolveProviderConfig = (): ProviderConfig => {
+    const provider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase() as ProviderName;
+    return {
+        provider,
+        apiKey: provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.API_KEY,
+        model: process.env.LLM_MODEL || undefined,
+        baseUrl: process.env.OPENAI_BASE_URL || undefined
+    };
+};
+
+const createBaseProvider = (config: ProviderConfig): LLMProvider => {
+    switch (config.provider) {
+        case 'gemini':
+            if (!config.apiKey) throw new Error("Gemini provider requires an API key");
+            return new GeminiProvider(config.apiKey, config.model);
+        case 'openai':
+            if (!config.apiKey) throw new Error("OpenAI-compatible provider requires an API key");
+            return new OpenAICompatibleProvider(config.apiKey, config.model, config.baseUrl);
+        case 'mock':
+            return new MockProvider();
+        default:
+            throw new Error(`Unknown LLM provider: ${config.provider}`);
+    }
+};
+
+// Every provider is wrapped in the request layer: timeouts, retries and a per-key concurrency limit
+export const createProvider = (config: ProviderConfig): LLMProvider =>
+    new RequestLayer(createBaseProvider(config), `${config.provider}:${config.apiKey ?? ''}`);
+
+// Binds an AbortSignal to every call made through the returned provider, so a screen can cancel
+// all of its in-flight requests at once without threading the signal through each service function.
+// Wrappers nest: a request is cancelled by whichever bound signal aborts first.
+export const withSignal = (provider: LLMProvider, signal: AbortSignal): LLMProvider => {
+    const bind = <R extends { signal?: AbortSignal }>(request: R): R =>
+        ({ ...request, signal: request.signal ? AbortSignal.any([signal, request.signal]) : signal });
+    return {
+        name: provider.name,
+        model: provider.model,
+        generateJSON: <T>(request: StructuredRequest) => provider.generateJSON<T>(bind(request)),
+        streamJSON: (request: StructuredRequest) => provider.streamJSON(bind(request)),
+        generateText: (request: TextRequest) => provider.generateText(bind(request)),
+        streamText: (request: TextRequest) => provider.streamText(bind(request))
+    };
+};
@@ -0,0 +1,176 @@
+import { LLMProvider, StructuredRequest, TextRequest } from "./provider";
+import { NetworkError, QuotaError, RequestAbortedError, classifyError, isTransient } from "./errors";
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 20000;
+const REQUEST_TIMEOUT_MS = 120000;
+const MAX_CONCURRENT_PER_KEY = 2;
+
+// FIFO counting semaphore. Waiters that are aborted leave the queue without taking a slot.
+class Semaphore {
+    private active = 0;
+    private waiting: (() => void)[] = [];
+
+    constructor(private readonly limit: number) {}
+
+    async acquire(signal?: AbortSignal): Promise<() => void> {
+        if (this.active >= this.limit) {
+            await new Promise<void>((resolve, reject) => {
+                const grant = () => {
+                    signal?.removeEventListener('abort', cancel);
+                    resolve();
+                };
+                const cancel = () => {
+                    this.waiting = this.waiting.filter(w => w !== grant);
+                    reject(new RequestAbortedError());
+                };
+                if (signal?.aborted) return cancel();
+                signal?.addEventListener('abort', cancel, { once: true });
+                this.waiting.push(grant);
+            });
+        } else if (signal?.aborted) {
+            throw new RequestAbortedError();
+        }
+        this.active++;
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            this.active--;
+            this.waiting.shift()?.();
+        };
+    }
+}
+
+// One limiter per API key, shared by every provider instance using that key
+const limiters = new Map<string, Semaphore>();
+const limiterFor = (key: string) => {
+    if (!limiters.has(key)) limiters.set(key, new Semaphore(MAX_CONCURRENT_PER_KEY));
+    return limiters.get(key)!;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new RequestAbortedError());
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+    }, ms);
+    const cancel = () => {
+        clearTimeout(timer);
+        reject(new RequestAbortedError());
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+});
+
+// Exponential backoff with full jitter, unless the server said how long to wait
+const backoff = (attempt: number, error: unknown) => {
+    if (error instanceof QuotaError && error.retryAfterMs) return Math.min(error.retryAfterMs, MAX_DELAY_MS);
+    return Math.random() * Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+};
+
+// Wraps a provider so every call is cancellable, time-limited, retried on transient failures
+// and counted against its key's concurrency limit. Errors leave as the typed classes in ./errors.
+export class RequestLayer implements LLMProvider {
+    private limiter: Semaphore;
+
+    constructor(private readonly inner: LLMProvider, key: string) {
+        this.limiter = limiterFor(key);
+    }
+
+    get name() {
+        return this.inner.name;
+    }
+
+    get model() {
+        return this.inner.model;
+    }
+
+    // Runs one attempt with its own timeout linked to the caller's signal
+    private async attempt<R extends TextRequest, T>(request: R, run: (request: R) => Promise<T>): Promise<T> {
+        const timeout = new AbortController();
+        const timer = setTimeout(() => timeout.abort(), REQUEST_TIMEOUT_MS);
+        const signal = request.signal ? AbortSignal.any([request.signal, timeout.signal]) : timeout.signal;
+        try {
+            return await run({ ...request, signal });
+        } catch (e) {
+            if (request.signal?.aborted) throw new RequestAbortedError();
+            if (timeout.signal.aborted) {
+                throw new NetworkError(this.name, `No response within ${REQUEST_TIMEOUT_MS / 1000}s`, undefined, true);
+            }
+            throw classifyError(e, this.name);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private async withRetry<R extends TextRequest, T>(request: R, run: (request: R) => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            const release = await this.limiter.acquire(request.signal);
+            let error: unknown;
+            try {
+                return await this.attempt(request, run);
+            } catch (e) {
+                error = e;
+            } finally {
+                // The slot is freed before backing off so other calls on the key can proceed
+                release();
+            }
+            if (!isTransient(error) || attempt + 1 >= MAX_ATTEMPTS) throw error;
+            console.warn(`${this.name} request failed, retrying (${attempt + 1}/${MAX_ATTEMPTS - 1}):`, error);
+            await sleep(backoff(attempt, error), request.signal);
+        }
+    }
+
+    generateJSON<T>(request: StructuredRequest): Promise<T> {
+        return this.withRetry(request, r => this.inner.generateJSON<T>(r));
+    }
+
+    generateText(request: TextRequest): Promise<string> {
+        return this.withRetry(request, r => this.inner.generateText(r));
+    }
+
+    streamJSON(request: StructuredRequest): AsyncIterable<string> {
+        return this.stream(request, r => this.inner.streamJSON(r));
+    }
+
+    streamText(request: TextRequest): AsyncIterable<string> {
+        return this.stream(request, r => this.inner.streamText(r));
+    }
+
+    // Streams are retried only until the first chunk arrives; after that a failure would duplicate text
+    private async *stream<R extends TextRequest>(request: R, open: (request: R) => AsyncIterable<string>): AsyncIterable<string> {
+        let pending: { iterator: AsyncIterator<string>; first: IteratorResult<string> } | null = null;
+        let release: () => void = () => {};
+        const signal = request.signal;
+
+        for (let attempt = 0; !pending; attempt++) {
+            release = await this.limiter.acquire(signal);
+            try {
+                pending = await this.attempt(request, async r => {
+                    const iterator = open(r)[Symbol.asyncIterator]();
+                    return { iterator, first: await iterator.next() };
+                });
+            } catch (e) {
+                release();
+                if (!isTransient(e) || attempt + 1 >= MAX_ATTEMPTS) throw e;
+                console.warn(`${this.name} stream failed to start, retrying (${attempt + 1}/${MAX_ATTEMPTS - 1}):`, e);
+                await sleep(backoff(attempt, e), signal);
+            }
+        }
+
+        try {
+            let result = pending.first;
+            while (!result.done) {
+                yield result.value;
+                if (signal?.aborted) throw new RequestAbortedError();
+                result = await pending.iterator.next();
+            }
+        } catch (e) {
+            throw signal?.aborted ? new RequestAbortedError() : classifyError(e, this.name);
+        } finally {
+            release();
+            await pending.iterator.return?.();
+        }
+    }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { isComplete, parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+    it('parses complete JSON like JSON.parse', () => {
+        const text = '{"a": [1, 2.5, {"b": "c\\n"}], "d": null, "e": true}';
+        expect(parsePartialJson(text)).toEqual(JSON.parse(text));
+    });
+
+    it('returns undefined before any value has started', () => {
+        expect(parsePartialJson('')).toBeUndefined();
+        expect(parsePartialJson('  ')).toBeUndefined();
+    });
+
+    it('keeps unterminated strings and closes open containers', () => {
+        expect(parsePartialJson('{"feedback": "Good st')).toEqual({ feedback: 'Good st' });
+        expect(parsePartialJson('["one", "tw')).toEqual(['one', 'tw']);
+    });
+
+    it('drops unfinished numbers, literals and keys', () => {
+        expect(parsePartialJson('{"score": 4')).toEqual({});
+        expect(parsePartialJson('{"ok": tr')).toEqual({});
+        expect(parsePartialJson('{"a": 1, "ke')).toEqual({ a: 1 });
+    });
+
+    it('marks containers that were still open as incomplete', () => {
+        const value = parsePartialJson('{"items": [{"id": "1"}, {"id": "2') as { items: unknown[] };
+        expect(isComplete(value)).toBe(false);
+        expect(isComplete(value.items)).toBe(false);
+        expect(isComplete(value.items[0])).toBe(true);
+        expect(isComplete(value.items[1])).toBe(false);
+    });
+
+    it('decodes escapes, including unicode ones', () => {
+        expect(parsePartialJson('"caf\\u00e9 \\"x\\""')).toBe('café "x"');
+    });
+});
@@ -0,0 +1,134 @@
+// Tolerant parser for JSON that is still arriving over a stream. Whatever has been received so far
+// is returned as a value: unterminated strings are kept as they are, unfinished numbers, literals and
+// keys are dropped, and open objects and arrays are closed. Containers that were still open when the
+// text ran out are remembered, so callers can tell a finished item from one still being written.
+const unfinished = new WeakSet<object>();
+
+export const isComplete = (node: unknown): boolean =>
+    typeof node !== 'object' || node === null || !unfinished.has(node);
+
+class EndOfInput extends Error {}
+
+// Carries the partially built value up through the enclosing containers
+class PartialValue extends Error {
+    constructor(readonly value: unknown) {
+        super('partial value');
+    }
+}
+
+const LITERAL = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+
+export const parsePartialJson = (text: string): unknown => {
+    let pos = 0;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+
+    const peek = () => {
+        skipWhitespace();
+        if (pos >= text.length) throw new EndOfInput();
+        return text[pos];
+    };
+
+    // Returns the string read so far and whether its closing quote arrived
+    const parseString = (): { value: string; closed: boolean } => {
+        pos++; // opening quote
+        let value = '';
+        while (pos < text.length) {
+            const char = text[pos++];
+            if (char === '"') return { value, closed: true };
+            if (char !== '\\') {
+                value += char;
+                continue;
+            }
+            if (pos >= text.length) break;
+            const escape = text[pos++];
+            if (escape === 'u') {
+                if (pos + 4 > text.length) break;
+                value += String.fromCharCode(parseInt(text.slice(pos, pos + 4), 16));
+                pos += 4;
+            } else {
+                value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+            }
+        }
+        return { value, closed: false };
+    };
+
+    const parseLiteral = (): unknown => {
+        LITERAL.lastIndex = pos;
+        const match = LITERAL.exec(text);
+        // A literal is only final once a delimiter follows it ("12" may still become "120" or "12.5")
+        if (!match || !/[\s,\]}]/.test(text[pos + match[0].length] ?? '')) throw new EndOfInput();
+        pos += match[0].length;
+        return JSON.parse(match[0]);
+    };
+
+    const parseValue = (): unknown => {
+        const char = peek();
+        if (char === '{') return parseObject();
+        if (char === '[') return parseArray();
+        if (char === '"') {
+            const { value, closed } = parseString();
+            if (!closed) throw new PartialValue(value);
+            return value;
+        }
+        return parseLiteral();
+    };
+
+    const parseObject = (): Record<string, unknown> => {
+        const out: Record<string, unknown> = {};
+        pos++;
+        try {
+            while (peek() !== '}') {
+                if (text[pos] === ',') pos++;
+                if (peek() !== '"') throw new EndOfInput();
+                const key = parseString();
+                if (!key.closed || peek() !== ':') throw new EndOfInput();
+                pos++;
+                try {
+                    out[key.value] = parseValue();
+                } catch (e) {
+                    if (e instanceof PartialValue) out[key.value] = e.value;
+                    throw e;
+                }
+            }
+            pos++;
+            return out;
+        } catch (e) {
+            if (!(e instanceof EndOfInput) && !(e instanceof PartialValue)) throw e;
+            unfinished.add(out);
+            throw new PartialValue(out);
+        }
+    };
+
+    const parseArray = (): unknown[] => {
+        const out: unknown[] = [];
+        pos++;
+        try {
+            while (peek() !== ']') {
+                if (text[pos] === ',') pos++;
+                try {
+                    out.push(parseValue());
+                } catch (e) {
+                    if (e instanceof PartialValue) out.push(e.value);
+                    throw e;
+                }
+            }
+            pos++;
+            return out;
+        } catch (e) {
+            if (!(e instanceof EndOfInput) && !(e instanceof PartialValue)) throw e;
+            unfinished.add(out);
+            throw new PartialValue(out);
+        }
+    };
+
+    try {
+        return parseValue();
+    } catch (e) {
+        if (e instanceof PartialValue) return e.value;
+        if (e instanceof EndOfInput) return undefined;
+        throw e;
+    }
+};
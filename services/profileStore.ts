@@ -0,0 +1,63 @@
+import { LearnerPreferences, LearnerProfile } from "../types";
+import { DEFAULT_PREFERENCES, DEFAULT_PROFILE_ID } from "../constants";
+import { PROFILE_STORE, withStore } from "./db";
+import { deleteSession, listSessions } from "./sessionStore";
+
+// Which profile this machine last used. Only the pointer lives in localStorage; profiles are in IndexedDB.
+const ACTIVE_PROFILE_KEY = 'neural-nexus.activeProfile';
+
+const readActiveProfileId = (): string | null => {
+    try {
+        return localStorage.getItem(ACTIVE_PROFILE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setActiveProfileId = (id: string) => {
+    try {
+        localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    } catch (e) {
+        console.warn('Could not remember the active profile:', e);
+    }
+};
+
+export const listProfiles = async (): Promise<LearnerProfile[]> => {
+    const profiles = await withStore(PROFILE_STORE, 'readonly', store => store.getAll() as IDBRequest<LearnerProfile[]>);
+    return profiles.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const putProfile = async (profile: LearnerProfile): Promise<LearnerProfile> => {
+    await withStore(PROFILE_STORE, 'readwrite', store => store.put(profile));
+    return profile;
+};
+
+export const newProfile = (name: string, options: { id?: string; preferences?: LearnerPreferences } = {}): LearnerProfile => {
+    const now = Date.now();
+    return {
+        id: options.id ?? crypto.randomUUID(),
+        name,
+        createdAt: now,
+        updatedAt: now,
+        preferences: options.preferences ?? DEFAULT_PREFERENCES
+    };
+};
+
+export const createProfile = (name: string, options: { id?: string; preferences?: LearnerPreferences } = {}): Promise<LearnerProfile> =>
+    putProfile(newProfile(name, options));
+
+// Every profile on the machine plus the one to open. The first run creates the default profile,
+// which also owns any sessions saved before profiles existed.
+export const loadProfiles = async (): Promise<{ profiles: LearnerProfile[]; active: LearnerProfile }> => {
+    let profiles = await listProfiles();
+    if (profiles.length === 0) profiles = [await createProfile('Learner 1', { id: DEFAULT_PROFILE_ID })];
+    const activeId = readActiveProfileId();
+    return { profiles, active: profiles.find(p => p.id === activeId) ?? profiles[0] };
+};
+
+// A profile takes its session history with it
+export const deleteProfile = async (id: string): Promise<void> => {
+    const sessions = await listSessions(id);
+    await Promise.all(sessions.map(session => deleteSession(session.id)));
+    await withStore(PROFILE_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { PROFILE_FORMAT, PROFILE_VERSION, ProfileError, parseProfileExport, profileStats } from './profiles';
+import { DEFAULT_PREFERENCES } from '../constants';
+import { QuestionType, SavedSession, SessionProgress } from '../types';
+
+const data = {
+    title: 'Cells',
+    summary: 'About cells',
+    concepts: [{ id: 'c1', term: 'Cell', definition: 'Unit of life', analogy: 'A brick', mastered: false }],
+    questions: [{
+        id: 'q1', type: QuestionType.CONCEPT_CHECK, question: 'What is a cell?', explanation: 'The unit of life',
+        difficulty: 3, options: ['A unit', 'A tissue'], correctOptionIndex: 0
+    }]
+};
+
+const progress = (overrides: Partial<SessionProgress> = {}): SessionProgress => ({
+    concepts: data.concepts,
+    deepDives: {},
+    currentQIndex: 0,
+    quizComplete: false,
+    stats: { syncedNodes: 0, stability: 50, streak: 0 },
+    history: [{ time: 0, stability: 50 }],
+    attempts: [],
+    activeConceptId: null,
+    viewMode: 'DATA_CORE',
+    ...overrides
+});
+
+const exportJson = (sessions: unknown[], profile: Record<string, unknown> = { name: 'Ada' }) =>
+    JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION, exportedAt: 0, profile, sessions });
+
+const session = (extra: Record<string, unknown> = {}) => ({ id: 's1', name: 'Cells', context: { type: 'text', content: 'x' }, data, ...extra });
+
+describe('parseProfileExport', () => {
+    it('rejects foreign or newer files', () => {
+        expect(() => parseProfileExport('{"format": "other"}')).toThrow(ProfileError);
+        expect(() => parseProfileExport(JSON.stringify({ format: PROFILE_FORMAT, version: PROFILE_VERSION + 1 }))).toThrow(/newer/);
+    });
+
+    it('completes missing preferences with the defaults', () => {
+        const parsed = parseProfileExport(exportJson([], { name: 'Ada', preferences: { adaptive: true } }));
+        expect(parsed.profile.preferences).toEqual({ ...DEFAULT_PREFERENCES, adaptive: true });
+    });
+
+    it('names the session whose data is malformed', () => {
+        expect(() => parseProfileExport(exportJson([session({ data: { ...data, questions: [] } })])))
+            .toThrow('Session "Cells" is malformed: Bundle contains no questions.');
+    });
+
+    it('keeps well-formed progress', () => {
+        const parsed = parseProfileExport(exportJson([session({ progress: progress() })]));
+        expect(parsed.sessions[0].progress).toEqual(progress());
+    });
+
+    it('imports a session fresh when its progress is malformed', () => {
+        const malformed = [
+            { ...progress(), attempts: 'none' },
+            { ...progress(), concepts: null },
+            progress({ currentQIndex: 5 }),
+            { ...progress(), stats: { stability: '50' } }
+        ];
+        const parsed = parseProfileExport(exportJson(malformed.map(p => session({ progress: p }))));
+        expect(parsed.sessions.map(s => s.progress)).toEqual([undefined, undefined, undefined, undefined]);
+    });
+});
+
+describe('profileStats', () => {
+    it('totals sessions, mastery, accuracy, streaks and time', () => {
+        const attempt = (passed: boolean) => ({ questionId: 'q1', passed, feedback: '', durationMs: 1000, answeredAt: 0 });
+        const sessions = [
+            { ...session(), updatedAt: 10, progress: progress({
+                quizComplete: true,
+                concepts: [{ ...data.concepts[0], mastered: true }],
+                attempts: [attempt(true), attempt(true), attempt(false), attempt(true)]
+            }) },
+            { ...session(), updatedAt: 20 }
+        ] as unknown as SavedSession[];
+        expect(profileStats(sessions)).toEqual({
+            sessions: 2, completed: 1, conceptsMastered: 1, conceptsTotal: 2, questionsAnswered: 4,
+            questionsPassed: 3, bestStreak: 2, studyTimeMs: 4000, lastActiveAt: 20
+        });
+    });
+});
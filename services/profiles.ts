@@ -0,0 +1,167 @@
+import { LearnerPreferences, LearnerProfile, SavedSession, SessionProgress, StudySessionData } from "../types";
+import { DEFAULT_GENERATION_SETTINGS, DEFAULT_PREFERENCES } from "../constants";
+import { downloadFile, toFileSlug } from "./download";
+import { BundleError, validateSessionData } from "./bundle";
+import { listSessions, putSession } from "./sessionStore";
+import { listProfiles, newProfile, putProfile } from "./profileStore";
+import { validateQuestion } from "./validation";
+
+// Portable copy of a learner: the profile with its preferences and every session it owns.
+// Bump PROFILE_VERSION on any breaking shape change and keep parseProfileExport able to read older versions.
+export const PROFILE_FORMAT = 'neural-nexus-profile';
+export const PROFILE_VERSION = 1;
+export const PROFILE_EXTENSION = '.nexus-profile.json';
+
+export interface ProfileExport {
+    format: typeof PROFILE_FORMAT;
+    version: number;
+    exportedAt: number;
+    profile: LearnerProfile;
+    sessions: SavedSession[];
+}
+
+export class ProfileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProfileError';
+    }
+}
+
+// Totals across every session the learner owns, so they carry over from one session to the next
+export interface ProfileStats {
+    sessions: number;
+    completed: number;
+    conceptsMastered: number;
+    conceptsTotal: number;
+    questionsAnswered: number;
+    questionsPassed: number;
+    bestStreak: number; // Longest run of passed questions within a session
+    studyTimeMs: number;
+    lastActiveAt?: number;
+}
+
+const longestRun = (passes: boolean[]) =>
+    passes.reduce(({ best, run }, passed) => {
+        const next = passed ? run + 1 : 0;
+        return { best: Math.max(best, next), run: next };
+    }, { best: 0, run: 0 }).best;
+
+export const profileStats = (sessions: SavedSession[]): ProfileStats =>
+    sessions.reduce<ProfileStats>((totals, session) => {
+        const progress = session.progress;
+        const attempts = progress?.attempts ?? [];
+        const concepts = progress?.concepts ?? session.data.concepts;
+        return {
+            sessions: totals.sessions + 1,
+            completed: totals.completed + (progress?.quizComplete ? 1 : 0),
+            conceptsMastered: totals.conceptsMastered + concepts.filter(c => c.mastered).length,
+            conceptsTotal: totals.conceptsTotal + concepts.length,
+            questionsAnswered: totals.questionsAnswered + attempts.length,
+            questionsPassed: totals.questionsPassed + attempts.filter(a => a.passed).length,
+            bestStreak: Math.max(totals.bestStreak, longestRun(attempts.map(a => a.passed))),
+            studyTimeMs: totals.studyTimeMs + attempts.reduce((sum, a) => sum + a.durationMs, 0),
+            lastActiveAt: Math.max(totals.lastActiveAt ?? 0, session.updatedAt)
+        };
+    }, { sessions: 0, completed: 0, conceptsMastered: 0, conceptsTotal: 0, questionsAnswered: 0, questionsPassed: 0, bestStreak: 0, studyTimeMs: 0 });
+
+export const downloadProfile = async (profile: LearnerProfile) => {
+    const exported: ProfileExport = {
+        format: PROFILE_FORMAT,
+        version: PROFILE_VERSION,
+        exportedAt: Date.now(),
+        profile,
+        sessions: await listSessions(profile.id)
+    };
+    downloadFile(`${toFileSlug(profile.name)}${PROFILE_EXTENSION}`, JSON.stringify(exported), 'application/json');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Preferences from older or hand-edited files are completed with the defaults
+const readPreferences = (raw: unknown): LearnerPreferences => {
+    if (!isObject(raw)) return DEFAULT_PREFERENCES;
+    return {
+        ...DEFAULT_PREFERENCES,
+        ...raw,
+        generation: { ...DEFAULT_GENERATION_SETTINGS, ...(isObject(raw.generation) ? raw.generation : {}) }
+    } as LearnerPreferences;
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean): boolean => Array.isArray(value) && value.every(check);
+
+const isConcept = (c: unknown) => isObject(c) && isString(c.id) && isString(c.term) && isString(c.definition) && isString(c.analogy)
+    && (c.review === undefined || (isObject(c.review) && isNumber(c.review.due) && Array.isArray(c.review.history)));
+const isAttempt = (a: unknown) => isObject(a) && isString(a.questionId) && typeof a.passed === 'boolean' && isNumber(a.durationMs);
+const isChatTurn = (t: unknown) => isObject(t) && (t.role === 'user' || t.role === 'model') && isString(t.text);
+
+// Progress is only kept when Session can resume from it; anything malformed is dropped and the
+// session is imported as if it had never been played
+const readProgress = (raw: unknown, data: StudySessionData): SessionProgress | undefined => {
+    if (!isObject(raw)) return undefined;
+    const questions = raw.questions === undefined ? data.questions : (Array.isArray(raw.questions) ? raw.questions : []);
+    const valid = isArrayOf(raw.concepts, isConcept) && (raw.concepts as unknown[]).length > 0
+        && isObject(raw.deepDives)
+        && isNumber(raw.currentQIndex) && raw.currentQIndex >= 0
+        && questions.length > 0 && questions.every(q => validateQuestion(q, 'question').value)
+        && typeof raw.quizComplete === 'boolean' && (raw.quizComplete || raw.currentQIndex < questions.length)
+        && isObject(raw.stats) && isNumber(raw.stats.stability) && isNumber(raw.stats.syncedNodes) && isNumber(raw.stats.streak)
+        && isArrayOf(raw.history, p => isObject(p) && isNumber(p.time) && isNumber(p.stability))
+        && isArrayOf(raw.attempts, isAttempt)
+        && (raw.activeConceptId === null || isString(raw.activeConceptId))
+        && (raw.viewMode === 'DATA_CORE' || raw.viewMode === 'SIMULATION')
+        && (raw.tutorChats === undefined || (isObject(raw.tutorChats) && Object.values(raw.tutorChats).every(turns => isArrayOf(turns, isChatTurn))));
+    return valid ? raw as unknown as SessionProgress : undefined;
+};
+
+const validateSession = (raw: unknown, index: number): SavedSession => {
+    const label = isObject(raw) && isString(raw.name) ? `"${raw.name}"` : `${index + 1}`;
+    if (!isObject(raw) || !isObject(raw.context) || !isString(raw.context.content)
+        || (raw.context.type !== 'text' && raw.context.type !== 'file')) {
+        throw new ProfileError(`Session ${label} is missing its source artifact.`);
+    }
+    let data: StudySessionData;
+    try {
+        data = validateSessionData(raw.data);
+    } catch (e) {
+        if (e instanceof BundleError) throw new ProfileError(`Session ${label} is malformed: ${e.message}`);
+        throw e;
+    }
+    return { ...(raw as unknown as SavedSession), data, progress: readProgress(raw.progress, data) };
+};
+
+export const parseProfileExport = (json: string): ProfileExport => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new ProfileError("File is not valid JSON.");
+    }
+    if (!isObject(raw) || raw.format !== PROFILE_FORMAT) {
+        throw new ProfileError("File is not a Neural Nexus learner profile.");
+    }
+    if (typeof raw.version !== 'number' || raw.version > PROFILE_VERSION) {
+        throw new ProfileError(`Profile version ${String(raw.version)} is newer than this app supports (v${PROFILE_VERSION}).`);
+    }
+    if (!isObject(raw.profile) || !isString(raw.profile.name) || !Array.isArray(raw.sessions)) {
+        throw new ProfileError("Profile file is missing the learner or their sessions.");
+    }
+    return {
+        ...(raw as unknown as ProfileExport),
+        profile: { ...(raw.profile as unknown as LearnerProfile), preferences: readPreferences(raw.profile.preferences) },
+        sessions: raw.sessions.map(validateSession)
+    };
+};
+
+// Always imported as a new learner with fresh ids, so an import can never overwrite someone's history
+export const importProfile = async (exported: ProfileExport): Promise<LearnerProfile> => {
+    const names = new Set((await listProfiles()).map(p => p.name));
+    const name = names.has(exported.profile.name) ? `${exported.profile.name} (imported)` : exported.profile.name;
+    const profile = await putProfile(newProfile(name, { preferences: exported.profile.preferences }));
+    for (const session of exported.sessions) {
+        await putSession({ ...session, id: crypto.randomUUID(), profileId: profile.id });
+    }
+    return profile;
+};
@@ -0,0 +1,56 @@
+import { LLMProvider, StructuredRequest } from "./llm/provider";
+import { RESPONSE_STORE, withStore } from "./db";
+import { sha256 } from "./hash";
+
+// Content-addressed store of validated model responses. The key covers everything that shapes the
+// output: the artifact and prompt (request parts), the schema and temperature derived from the
+// generation settings, and the provider/model. Identical requests are answered locally.
+interface CachedResponse {
+    key: string;
+    value: unknown;
+    createdAt: number;
+}
+
+const MAX_ENTRIES = 500;
+
+export const responseKey = (provider: LLMProvider, request: StructuredRequest): Promise<string> =>
+    sha256(JSON.stringify({
+        provider: provider.name,
+        model: provider.model,
+        parts: request.parts,
+        schema: request.schema,
+        temperature: request.temperature,
+        systemInstruction: request.systemInstruction,
+        history: request.history
+    }));
+
+// The cache is best-effort: storage failures read as misses rather than failing the request
+export const readResponse = async <T>(key: string): Promise<T | undefined> => {
+    try {
+        const entry = await withStore(RESPONSE_STORE, 'readonly', store => store.get(key) as IDBRequest<CachedResponse | undefined>);
+        return entry?.value as T | undefined;
+    } catch (e) {
+        console.warn('Response cache read failed:', e);
+        return undefined;
+    }
+};
+
+export const writeResponse = async (key: string, value: unknown): Promise<void> => {
+    await withStore(RESPONSE_STORE, 'readwrite', store => store.put({ key, value, createdAt: Date.now() } satisfies CachedResponse));
+    await pruneResponses();
+};
+
+// Evicts the oldest entries beyond MAX_ENTRIES
+const pruneResponses = async () => {
+    const keys = await withStore(RESPONSE_STORE, 'readonly', store => store.index('createdAt').getAllKeys());
+    for (const key of keys.slice(0, Math.max(0, keys.length - MAX_ENTRIES))) {
+        await withStore(RESPONSE_STORE, 'readwrite', store => store.delete(key));
+    }
+};
+
+export const countResponses = (): Promise<number> =>
+    withStore(RESPONSE_STORE, 'readonly', store => store.count());
+
+export const clearResponses = async (): Promise<void> => {
+    await withStore(RESPONSE_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,52 @@
+// Lexical passage retrieval so graders see the parts of the artifact that matter
+// instead of the first N characters of it.
+
+const PASSAGE_CHARS = 900;
+const STOPWORDS = new Set([
+    'the', 'and', 'that', 'this', 'with', 'from', 'which', 'what', 'when', 'where', 'their', 'there',
+    'have', 'been', 'were', 'will', 'would', 'could', 'should', 'about', 'into', 'than', 'then',
+    'them', 'they', 'your', 'does', 'explain', 'describe', 'answer', 'student'
+]);
+
+const tokenize = (text: string) =>
+    (text.toLowerCase().match(/[a-z0-9À-ɏ]{3,}/g) || []).filter(t => !STOPWORDS.has(t));
+
+const splitPassages = (text: string): string[] => {
+    const passages: string[] = [];
+    for (const paragraph of text.split(/\n\s*\n/)) {
+        const trimmed = paragraph.trim();
+        if (!trimmed) continue;
+        for (let i = 0; i < trimmed.length; i += PASSAGE_CHARS) {
+            passages.push(trimmed.slice(i, i + PASSAGE_CHARS));
+        }
+    }
+    return passages;
+};
+
+// Ranks passages by TF-IDF overlap with the query and returns the best ones in document order
+export const retrievePassages = (text: string, query: string, maxChars = 8000): string[] => {
+    const passages = splitPassages(text);
+    const queryTerms = new Set(tokenize(query));
+    if (queryTerms.size === 0) return passages.slice(0, Math.max(1, Math.floor(maxChars / PASSAGE_CHARS)));
+
+    const tokenized = passages.map(tokenize);
+    const docFreq = new Map<string, number>();
+    tokenized.forEach(tokens => new Set(tokens).forEach(t => docFreq.set(t, (docFreq.get(t) || 0) + 1)));
+
+    const scored = tokenized.map((tokens, index) => {
+        let score = 0;
+        for (const token of tokens) {
+            if (queryTerms.has(token)) score += Math.log(1 + passages.length / (docFreq.get(token) || 1));
+        }
+        return { index, score: score / Math.sqrt(tokens.length || 1) };
+    });
+
+    const picked: number[] = [];
+    let used = 0;
+    for (const { index, score } of scored.sort((a, b) => b.score - a.score)) {
+        if (score <= 0 || used + passages[index].length > maxChars) continue;
+        picked.push(index);
+        used += passages[index].length;
+    }
+    return picked.sort((a, b) => a - b).map(i => passages[i]);
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { applyIdleDecay, applyOutcome, applySync, createStats, difficultyWeight, gameStatus, penalty, rebootStats, reward, streakMultiplier } from './rules';
+import {
+    IDLE_DECAY_FLOOR, IDLE_GRACE_MS, STABILITY_BONUS, STABILITY_INITIAL, STABILITY_PENALTY, STABILITY_THRESHOLD_WIN, STREAK_MULTIPLIER_CAP
+} from '../constants';
+
+const HOUR = 3_600_000;
+
+describe('rewards and penalties', () => {
+    it('treats difficulty 5 and unrated outcomes as neutral', () => {
+        expect(difficultyWeight(5)).toBe(1);
+        expect(difficultyWeight(undefined)).toBe(1);
+        expect(difficultyWeight(10)).toBeGreaterThan(difficultyWeight(1));
+    });
+
+    it('caps the streak multiplier', () => {
+        expect(streakMultiplier(0)).toBe(1);
+        expect(streakMultiplier(100)).toBe(STREAK_MULTIPLIER_CAP);
+    });
+
+    it('pays more for harder questions and costs less when they are missed', () => {
+        expect(reward({ passed: true }, 0)).toBe(STABILITY_BONUS);
+        expect(reward({ passed: true, difficulty: 9 }, 0)).toBeGreaterThan(reward({ passed: true, difficulty: 2 }, 0));
+        expect(penalty({ passed: false })).toBe(STABILITY_PENALTY);
+        expect(penalty({ passed: false, difficulty: 9 })).toBeLessThan(penalty({ passed: false, difficulty: 2 }));
+    });
+
+    it('adds the flat bonus on top of the scaled reward', () => {
+        expect(reward({ passed: true, bonus: 5 }, 0)).toBe(STABILITY_BONUS + 5);
+    });
+});
+
+describe('applyOutcome', () => {
+    it('raises stability and extends the streak on success', () => {
+        const next = applyOutcome(createStats(0), { passed: true }, 1000);
+        expect(next.stability).toBe(STABILITY_INITIAL + STABILITY_BONUS);
+        expect(next.streak).toBe(1);
+        expect(next.lastActiveAt).toBe(1000);
+    });
+
+    it('resets the streak and never drops below zero on failure', () => {
+        const next = applyOutcome({ ...createStats(0), stability: 5, streak: 4 }, { passed: false }, 0);
+        expect(next.stability).toBe(0);
+        expect(next.streak).toBe(0);
+        expect(gameStatus(next)).toBe('COLLAPSED');
+    });
+
+    it('never exceeds 100', () => {
+        expect(applyOutcome({ ...createStats(0), stability: 99 }, { passed: true }, 0).stability).toBe(100);
+    });
+});
+
+describe('applyIdleDecay', () => {
+    it('leaves stats untouched within the grace period', () => {
+        const stats = createStats(0);
+        expect(applyIdleDecay(stats, IDLE_GRACE_MS)).toBe(stats);
+    });
+
+    it('decays linearly after the grace period but stops at the floor', () => {
+        const decayed = applyIdleDecay(createStats(0), IDLE_GRACE_MS + HOUR);
+        expect(decayed.stability).toBeLessThan(STABILITY_INITIAL);
+        expect(applyIdleDecay(createStats(0), IDLE_GRACE_MS + 1000 * HOUR).stability).toBe(IDLE_DECAY_FLOOR);
+    });
+
+    it('does not lift stability that is already below the floor', () => {
+        const stats = { ...createStats(0), stability: 10 };
+        expect(applyIdleDecay(stats, 1000 * HOUR).stability).toBe(10);
+    });
+});
+
+describe('session state', () => {
+    it('reports a win at the threshold', () => {
+        expect(gameStatus({ ...createStats(0), stability: STABILITY_THRESHOLD_WIN })).toBe('WON');
+        expect(gameStatus(createStats(0))).toBe('ACTIVE');
+    });
+
+    it('counts synced nodes and keeps them through a reboot', () => {
+        const synced = applySync(applySync(createStats(0)));
+        expect(synced.syncedNodes).toBe(2);
+        const rebooted = rebootStats({ ...synced, stability: 0, streak: 3 }, 500);
+        expect(rebooted).toEqual({ ...createStats(500), syncedNodes: 2 });
+    });
+});
@@ -0,0 +1,78 @@
+import { PlayerStats } from "../types";
+import {
+    FREE_RESPONSE_MULTIPLIER, IDLE_DECAY_FLOOR, IDLE_DECAY_PER_HOUR, IDLE_GRACE_MS, STABILITY_BONUS,
+    STABILITY_INITIAL, STABILITY_PENALTY, STABILITY_THRESHOLD_WIN, STREAK_MULTIPLIER_CAP, STREAK_MULTIPLIER_STEP
+} from "../constants";
+
+// All stability scoring lives here. Every function is pure; callers pass the clock in.
+
+export type GameStatus = 'ACTIVE' | 'WON' | 'COLLAPSED';
+
+export interface Outcome {
+    passed: boolean;
+    difficulty?: number; // 1-10; omitted for concept challenges, which carry no rating
+    freeResponse?: boolean;
+    bonus?: number; // Flat stability added on success, e.g. for unlocking concepts
+}
+
+const clamp = (value: number) => Math.max(0, Math.min(100, value));
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const createStats = (now: number): PlayerStats => ({
+    syncedNodes: 0,
+    stability: STABILITY_INITIAL,
+    streak: 0,
+    lastActiveAt: now
+});
+
+export const streakMultiplier = (streak: number) =>
+    Math.min(1 + streak * STREAK_MULTIPLIER_STEP, STREAK_MULTIPLIER_CAP);
+
+// Harder questions pay more when passed and cost less when missed; 5/10 is neutral
+export const difficultyWeight = (difficulty?: number) =>
+    difficulty === undefined ? 1 : 0.5 + Math.max(1, Math.min(10, difficulty)) / 10;
+
+export const reward = (outcome: Outcome, streak: number) =>
+    round(STABILITY_BONUS * (outcome.freeResponse ? FREE_RESPONSE_MULTIPLIER : 1)
+        * difficultyWeight(outcome.difficulty) * streakMultiplier(streak) + (outcome.bonus ?? 0));
+
+export const penalty = (outcome: Outcome) =>
+    round(STABILITY_PENALTY * (2 - difficultyWeight(outcome.difficulty)));
+
+// Linear decay after a grace period, never dragging stability below the floor (or lower than it already is)
+export const applyIdleDecay = (stats: PlayerStats, now: number): PlayerStats => {
+    const idleMs = now - (stats.lastActiveAt ?? now);
+    if (idleMs <= IDLE_GRACE_MS) return stats;
+    const decay = ((idleMs - IDLE_GRACE_MS) / 3_600_000) * IDLE_DECAY_PER_HOUR;
+    const floor = Math.min(stats.stability, IDLE_DECAY_FLOOR);
+    return { ...stats, stability: round(Math.max(floor, stats.stability - decay)), lastActiveAt: now };
+};
+
+export const applyOutcome = (stats: PlayerStats, outcome: Outcome, now: number): PlayerStats => {
+    const current = applyIdleDecay(stats, now);
+    const delta = outcome.passed ? reward(outcome, current.streak) : -penalty(outcome);
+    return {
+        ...current,
+        stability: round(clamp(current.stability + delta)),
+        streak: outcome.passed ? current.streak + 1 : 0,
+        lastActiveAt: now
+    };
+};
+
+// A concept synchronized for the first time; stability is handled by applyOutcome
+export const applySync = (stats: PlayerStats): PlayerStats => ({
+    ...stats,
+    syncedNodes: stats.syncedNodes + 1
+});
+
+export const gameStatus = (stats: PlayerStats): GameStatus => {
+    if (stats.stability <= 0) return 'COLLAPSED';
+    if (stats.stability >= STABILITY_THRESHOLD_WIN) return 'WON';
+    return 'ACTIVE';
+};
+
+// After a collapse the simulation restarts from baseline; synchronized concepts are kept
+export const rebootStats = (stats: PlayerStats, now: number): PlayerStats => ({
+    ...createStats(now),
+    syncedNodes: stats.syncedNodes
+});
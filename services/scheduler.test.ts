@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { PASSING_QUALITY, collectDueReviews, hasSynced, isDue, scheduleReview, scoreToQuality } from './scheduler';
+import { PASS_THRESHOLD } from '../constants';
+import { SavedSession, StudyConcept } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 0, 15, 12).getTime();
+
+const concept = (id: string, review?: StudyConcept['review']): StudyConcept =>
+    ({ id, term: id, definition: '', analogy: '', mastered: false, review }) as StudyConcept;
+
+describe('scoreToQuality', () => {
+    it('maps only passing scores to a successful recall', () => {
+        expect(scoreToQuality(PASS_THRESHOLD - 1)).toBeLessThan(PASSING_QUALITY);
+        expect(scoreToQuality(PASS_THRESHOLD)).toBe(PASSING_QUALITY);
+        expect(scoreToQuality(50)).toBeLessThan(PASSING_QUALITY);
+    });
+
+    it('spans the full 0-5 scale and clamps out-of-range scores', () => {
+        expect(scoreToQuality(0)).toBe(0);
+        expect(scoreToQuality(100)).toBe(5);
+        expect(scoreToQuality(-20)).toBe(0);
+        expect(scoreToQuality(140)).toBe(5);
+    });
+});
+
+describe('scheduleReview', () => {
+    it('climbs the SM-2 interval ladder on successive passes', () => {
+        const first = scheduleReview(undefined, 100, NOW);
+        const second = scheduleReview(first, 100, NOW);
+        const third = scheduleReview(second, 100, NOW);
+        expect([first.interval, second.interval, third.interval]).toEqual([1, 6, Math.round(6 * second.ease)]);
+        expect(third.repetitions).toBe(3);
+        expect(third.history).toHaveLength(3);
+    });
+
+    it('restarts the ladder and makes the concept due now on a failure', () => {
+        const review = scheduleReview(scheduleReview(undefined, 100, NOW), 30, NOW);
+        expect(review.repetitions).toBe(0);
+        expect(review.interval).toBe(0);
+        expect(review.due).toBe(NOW);
+    });
+
+    it('never lowers ease below the SM-2 minimum', () => {
+        let review = scheduleReview(undefined, 0, NOW);
+        for (let i = 0; i < 20; i++) review = scheduleReview(review, 0, NOW);
+        expect(review.ease).toBe(1.3);
+    });
+});
+
+describe('due reviews', () => {
+    it('ignores concepts that have never passed a review', () => {
+        const failedFirst = scheduleReview(undefined, 20, NOW);
+        expect(hasSynced(failedFirst)).toBe(false);
+        expect(isDue(concept('a', failedFirst), NOW)).toBe(false);
+        expect(isDue(concept('b'), NOW)).toBe(false);
+    });
+
+    it('marks a synchronized concept due once its interval has elapsed', () => {
+        const synced = scheduleReview(undefined, 100, NOW);
+        expect(isDue(concept('a', synced), NOW)).toBe(false);
+        expect(isDue(concept('a', synced), NOW + DAY)).toBe(true);
+        expect(isDue(concept('a', scheduleReview(synced, 10, NOW)), NOW)).toBe(true);
+    });
+
+    it('collects due concepts across sessions, most overdue first', () => {
+        const early = scheduleReview(undefined, 100, NOW - 5 * DAY);
+        const late = scheduleReview(undefined, 100, NOW - 2 * DAY);
+        const sessions = [
+            { id: 's1', name: 'One', data: { concepts: [concept('late', late), concept('new')] } },
+            { id: 's2', name: 'Two', data: { concepts: [concept('early', early)] } }
+        ] as unknown as SavedSession[];
+        expect(collectDueReviews(sessions, NOW).map(r => r.concept.id)).toEqual(['early', 'late']);
+    });
+});
@@ -0,0 +1,76 @@
+import { ConceptReview, SavedSession, StudyConcept } from "../types";
+import { PASS_THRESHOLD } from "../constants";
+import { isPassing } from "./grading";
+
+// SM-2 scheduling driven by Sync Protocol scores.
+// See https://super-memory.com/english/ol/sm2.htm for the original algorithm.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+export const PASSING_QUALITY = 3;
+
+// Maps a 0-100 evaluator score onto SM-2's 0-5 recall quality scale. The split follows the grader's
+// pass mark: failing scores spread over 0-2 and passing scores over 3-5, so only a passed
+// answer counts as a successful recall
+export const scoreToQuality = (score: number): number => {
+    const clamped = Math.max(0, Math.min(100, score));
+    if (!isPassing(clamped)) return Math.min(PASSING_QUALITY - 1, Math.floor(clamped / PASS_THRESHOLD * PASSING_QUALITY));
+    return PASSING_QUALITY + Math.round((clamped - PASS_THRESHOLD) / (100 - PASS_THRESHOLD) * (5 - PASSING_QUALITY));
+};
+
+export const scheduleReview = (previous: ConceptReview | undefined, score: number, now = Date.now()): ConceptReview => {
+    const quality = scoreToQuality(score);
+    const ease = previous?.ease ?? INITIAL_EASE;
+    const repetitions = previous?.repetitions ?? 0;
+    const lastInterval = previous?.interval ?? 0;
+
+    let nextRepetitions: number;
+    let interval: number;
+    if (quality >= PASSING_QUALITY) {
+        nextRepetitions = repetitions + 1;
+        interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(lastInterval * ease);
+    } else {
+        // Failed recall restarts the ladder and keeps the node due immediately
+        nextRepetitions = 0;
+        interval = 0;
+    }
+
+    const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    return {
+        ease: nextEase,
+        interval,
+        repetitions: nextRepetitions,
+        due: now + interval * DAY_MS,
+        history: [...(previous?.history ?? []), { reviewedAt: now, score, quality, interval }]
+    };
+};
+
+export const endOfDay = (now = Date.now()): number => {
+    const d = new Date(now);
+    d.setHours(23, 59, 59, 999);
+    return d.getTime();
+};
+
+// True once any review has passed. A concept can lose `mastered` after a failed review, but it
+// only counts as synchronized (and can only decay) after its first passing one.
+export const hasSynced = (review: ConceptReview | undefined): boolean =>
+    !!review && review.history.some(entry => entry.quality >= PASSING_QUALITY);
+
+// Concepts that have never been synchronized are "new", not due
+export const isDue = (concept: StudyConcept, now = Date.now()): boolean =>
+    hasSynced(concept.review) && concept.review!.due <= endOfDay(now);
+
+export interface DueReview {
+    sessionId: string;
+    sessionName: string;
+    concept: StudyConcept;
+}
+
+export const collectDueReviews = (sessions: SavedSession[], now = Date.now()): DueReview[] =>
+    sessions
+        .flatMap(session => (session.progress?.concepts ?? session.data.concepts)
+            .filter(concept => isDue(concept, now))
+            .map(concept => ({ sessionId: session.id, sessionName: session.name, concept })))
+        .sort((a, b) => a.concept.review!.due - b.concept.review!.due);
@@ -0,0 +1,85 @@
+import { SavedSession, SessionProgress, StudySessionData, InputContext, GenerationSettings } from "../types";
+import { DEFAULT_PROFILE_ID } from "../constants";
+import { SESSION_STORE, withStore } from "./db";
+
+const newId = () => crypto.randomUUID();
+
+export const sessionOwner = (session: SavedSession) => session.profileId ?? DEFAULT_PROFILE_ID;
+
+// Without a profile id every learner's sessions are listed
+export const listSessions = async (profileId?: string): Promise<SavedSession[]> => {
+    const sessions = await withStore(SESSION_STORE, 'readonly', store => store.getAll() as IDBRequest<SavedSession[]>);
+    return sessions
+        .filter(session => !profileId || sessionOwner(session) === profileId)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = (id: string): Promise<SavedSession | undefined> =>
+    withStore(SESSION_STORE, 'readonly', store => store.get(id) as IDBRequest<SavedSession | undefined>);
+
+export const putSession = async (session: SavedSession): Promise<SavedSession> => {
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+    return session;
+};
+
+export const createSession = (
+    data: StudySessionData,
+    context: InputContext,
+    settings?: GenerationSettings,
+    // Streamed sessions are opened before they are stored and keep the id they were opened with
+    options: { id?: string; profileId?: string; name?: string; progress?: SessionProgress } = {}
+): Promise<SavedSession> => {
+    const now = Date.now();
+    return putSession({
+        id: options.id ?? newId(),
+        profileId: options.profileId,
+        name: options.name ?? data.title,
+        createdAt: now,
+        updatedAt: now,
+        context,
+        settings,
+        data,
+        progress: options.progress
+    });
+};
+
+// Progress saves fire on every state change; chain them per session so an older
+// snapshot can never land after a newer one.
+const pendingSaves = new Map<string, Promise<void>>();
+
+export const saveProgress = (id: string, progress: SessionProgress): Promise<void> => {
+    const previous = pendingSaves.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+        const session = await getSession(id);
+        if (!session) return;
+        await putSession({ ...session, progress, updatedAt: Date.now() });
+    });
+    pendingSaves.set(id, next);
+    next.finally(() => {
+        if (pendingSaves.get(id) === next) pendingSaves.delete(id);
+    }).catch(() => undefined);
+    return next;
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+    const session = await getSession(id);
+    if (!session) return;
+    await putSession({ ...session, name, updatedAt: Date.now() });
+};
+
+export const duplicateSession = async (id: string): Promise<SavedSession | undefined> => {
+    const session = await getSession(id);
+    if (!session) return undefined;
+    const now = Date.now();
+    return putSession({
+        ...structuredClone(session),
+        id: newId(),
+        name: `${session.name} (copy)`,
+        createdAt: now,
+        updatedAt: now
+    });
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { validateChallenge, validateConcepts, validateCounterTheoryGrade, validateDeepDive, validateGrade, validateQuestion, validateQuestions, validateSession } from './validation';
+import { QuestionType } from '../types';
+
+const choice = (overrides: Record<string, unknown> = {}) => ({
+    id: 'q1', type: QuestionType.CONCEPT_CHECK, question: 'Which?', explanation: 'Because', difficulty: 5,
+    options: ['A', 'B', 'C'], correctOptionIndex: 1, ...overrides
+});
+
+describe('validateConcepts', () => {
+    it('drops concepts without a term or definition and renumbers duplicate ids', () => {
+        const { value, issues } = validateConcepts([
+            { id: 'c1', term: 'One', definition: 'first' },
+            { id: 'c1', term: 'Two', definition: 'second' },
+            { id: 'c3', term: '', definition: 'nameless' }
+        ]);
+        expect(value?.map(c => c.id)).toEqual(['c1', 'c2']);
+        expect(value?.every(c => c.mastered === false)).toBe(true);
+        expect(issues).toEqual(['concepts[2] is missing a term or definition']);
+    });
+
+    it('returns null when nothing usable remains', () => {
+        expect(validateConcepts('nope').value).toBeNull();
+    });
+});
+
+describe('validateQuestion', () => {
+    it('rejects unknown types and missing text', () => {
+        expect(validateQuestion(choice({ type: 'ESSAY' }), 'q').value).toBeNull();
+        expect(validateQuestion(choice({ question: '  ' }), 'q').value).toBeNull();
+    });
+
+    it('clamps difficulty into 1-10', () => {
+        expect(validateQuestion(choice({ difficulty: 40 }), 'q').value?.difficulty).toBe(10);
+        expect(validateQuestion(choice({ difficulty: 'hard' }), 'q').value?.difficulty).toBe(5);
+    });
+
+    it('shifts the correct index past dropped empty options', () => {
+        const { value } = validateQuestion(choice({ options: ['', 'A', '', 'B'], correctOptionIndex: 3 }), 'q');
+        expect(value?.options).toEqual(['A', 'B']);
+        expect(value?.correctOptionIndex).toBe(1);
+    });
+
+    it('rejects an index that is out of range or points at an empty option', () => {
+        expect(validateQuestion(choice({ correctOptionIndex: 3 }), 'q').value).toBeNull();
+        expect(validateQuestion(choice({ options: ['', 'A', 'B'], correctOptionIndex: 0 }), 'q').issues)
+            .toEqual(['q marks an empty option as correct']);
+        expect(validateQuestion(choice({ options: ['A'] }), 'q').value).toBeNull();
+    });
+
+    it('strips options from free-response questions', () => {
+        const { value } = validateQuestion(choice({ type: QuestionType.SOCRATIC_DEFENSE }), 'q');
+        expect(value?.options).toBeUndefined();
+        expect(value?.correctOptionIndex).toBe(-1);
+    });
+
+    it('requires a rival theory for COUNTER_THEORY questions', () => {
+        expect(validateQuestion(choice({ type: QuestionType.COUNTER_THEORY }), 'q').value).toBeNull();
+        expect(validateQuestion(choice({ type: QuestionType.COUNTER_THEORY, rivalTheory: 'It is magic' }), 'q').value?.rivalTheory)
+            .toBe('It is magic');
+    });
+
+    it('normalizes the rubric and removes one without usable key points', () => {
+        const { value } = validateQuestion(choice({
+            rubric: { keyPoints: [{ description: 'Names the cause', weight: 9 }, { description: 'No weight' }], misconceptions: ['x', ''] }
+        }), 'q');
+        expect(value?.rubric).toEqual({ keyPoints: [{ id: 'kp1', description: 'Names the cause', weight: 5 }], misconceptions: ['x'] });
+        expect(validateQuestion(choice({ rubric: { keyPoints: [] } }), 'q').value?.rubric).toBeUndefined();
+    });
+
+    it('keeps anchored citation offsets', () => {
+        const { value } = validateQuestion(choice({ citations: [{ quote: 'text', page: 2, start: 4, end: 8 }, { quote: '' }] }), 'q');
+        expect(value?.citations).toEqual([{ quote: 'text', page: 2, start: 4, end: 8, source: undefined }]);
+    });
+});
+
+describe('validateQuestions and validateSession', () => {
+    it('reports an empty question set', () => {
+        expect(validateQuestions([]).issues).toContain('no usable questions were returned');
+    });
+
+    it('assembles a session and fills in a missing title', () => {
+        const { value } = validateSession({
+            summary: 'S',
+            concepts: [{ term: 'T', definition: 'D' }],
+            questions: [choice()]
+        });
+        expect(value?.title).toBe('Untitled Session');
+        expect(value?.concepts[0].id).toBe('c1');
+        expect(value?.relations).toEqual([]);
+    });
+});
+
+describe('validateDeepDive', () => {
+    it('accepts partial content but reports empty sections', () => {
+        const { value, issues } = validateDeepDive({ theoreticalUnderpinnings: 'Theory' });
+        expect(value?.theoreticalUnderpinnings).toBe('Theory');
+        expect(issues).toEqual(['realWorldApplication is empty', 'interdisciplinaryConnection is empty']);
+        expect(validateDeepDive({}).value).toBeNull();
+    });
+});
+
+describe('grade validators', () => {
+    it('keeps only known criteria, clamps scores and reports ungraded points', () => {
+        const { value, issues } = validateGrade(['a', 'b'])({
+            criteria: [{ id: 'a', score: 140, evidence: 'x' }, { id: 'z', score: 50 }],
+            feedback: ''
+        });
+        expect(value?.criteria).toEqual([{ id: 'a', score: 100, evidence: 'x' }]);
+        expect(value?.feedback).toBe('No feedback provided.');
+        expect(issues).toEqual(['key point "b" was not graded']);
+    });
+
+    it('rejects a grade with no scored criteria', () => {
+        expect(validateGrade(['a'])({ criteria: [] }).value).toBeNull();
+    });
+
+    it('adds the flaw lists for counter-theory grades', () => {
+        const { value } = validateCounterTheoryGrade(['flaws'])({
+            criteria: [{ id: 'flaws', score: 80 }], flawsIdentified: ['circular'], flawsMissed: 'none'
+        });
+        expect(value?.flawsIdentified).toEqual(['circular']);
+        expect(value?.flawsMissed).toEqual([]);
+    });
+
+    it('accepts a challenge without a usable rubric but reports it', () => {
+        expect(validateChallenge({ question: 'Why?', rubric: {} })).toEqual({
+            value: { question: 'Why?', rubric: undefined },
+            issues: ['rubric has no usable key points']
+        });
+        expect(validateChallenge({ question: '' }).value).toBeNull();
+    });
+});
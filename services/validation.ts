@@ -0,0 +1,223 @@
+import { ConceptChallenge, DeepDiveContent, DeepDiveSection, GameQuestion, QuestionType, Rubric, SourceCitation, StudyConcept, StudySessionData } from "../types";
+
+// Every model response passes through a validator before it reaches the UI. Validators repair what
+// they safely can (defaults, clamping, renumbering) and report the rest as issues. Items that are
+// unusable are dropped from `value`; `value` is null when nothing usable remains.
+export interface ValidationResult<T> {
+    value: T | null;
+    issues: string[];
+}
+
+export type Validator<T> = (raw: unknown) => ValidationResult<T>;
+
+export class ResponseValidationError extends Error {
+    constructor(readonly shape: string, readonly issues: string[]) {
+        super(`The model returned an invalid ${shape}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? '…' : ''}`);
+        this.name = 'ResponseValidationError';
+    }
+}
+
+type Raw = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Raw =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+const list = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+const strings = (value: unknown): string[] => list(value).map(text).filter(Boolean);
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, Math.round(value))) : fallback;
+
+const citations = (value: unknown): SourceCitation[] =>
+    list(value).filter(isObject).filter(c => text(c.quote)).map(c => ({
+        quote: text(c.quote),
+        page: typeof c.page === 'number' ? c.page : undefined,
+        start: typeof c.start === 'number' ? c.start : undefined,
+        end: typeof c.end === 'number' ? c.end : undefined,
+        source: text(c.source) || undefined
+    }));
+
+// Duplicate or missing ids are renumbered rather than rejected
+const uniqueIds = <T extends { id: string }>(items: T[], prefix: string): T[] => {
+    const seen = new Set<string>();
+    return items.map((item, i) => {
+        let id = item.id;
+        for (let n = i + 1; !id || seen.has(id); n++) id = `${prefix}${n}`;
+        seen.add(id);
+        return { ...item, id };
+    });
+};
+
+// Key points need a description and a numeric weight; a rubric with none left is removed so
+// grading falls back to FALLBACK_RUBRIC instead of scoring against a NaN weight
+const rubric = (value: unknown): Rubric | undefined => {
+    if (!isObject(value)) return undefined;
+    const keyPoints = list(value.keyPoints).filter(isObject).filter(kp => text(kp.description) && typeof kp.weight === 'number').map((kp, i) => ({
+        id: text(kp.id) || `kp${i + 1}`,
+        description: text(kp.description),
+        weight: clamp(kp.weight, 1, 5, 1)
+    }));
+    if (keyPoints.length === 0) return undefined;
+    return { keyPoints: uniqueIds(keyPoints, 'kp'), misconceptions: strings(value.misconceptions) };
+};
+
+export const validateConcepts = (raw: unknown): ValidationResult<StudyConcept[]> => {
+    const issues: string[] = [];
+    const concepts = list(raw).flatMap((item, i): StudyConcept[] => {
+        if (!isObject(item) || !text(item.term) || !text(item.definition)) {
+            issues.push(`concepts[${i}] is missing a term or definition`);
+            return [];
+        }
+        return [{
+            ...(item as unknown as StudyConcept),
+            id: text(item.id),
+            term: text(item.term),
+            definition: text(item.definition),
+            analogy: text(item.analogy),
+            mastered: false,
+            citations: citations(item.citations)
+        }];
+    });
+    if (concepts.length === 0) issues.push('no usable concepts were returned');
+    return { value: concepts.length > 0 ? uniqueIds(concepts, 'c') : null, issues };
+};
+
+export const validateQuestion = (item: unknown, label: string): ValidationResult<GameQuestion> => {
+    if (!isObject(item) || !text(item.question)) return { value: null, issues: [`${label} has no question text`] };
+    const type = item.type as QuestionType;
+    if (!Object.values(QuestionType).includes(type)) {
+        return { value: null, issues: [`${label} has unknown type "${String(item.type)}"`] };
+    }
+
+    const question: GameQuestion = {
+        ...(item as unknown as GameQuestion),
+        id: text(item.id),
+        type,
+        question: text(item.question),
+        explanation: text(item.explanation),
+        difficulty: clamp(item.difficulty, 1, 10, 5),
+        citations: citations(item.citations),
+        rivalTheory: text(item.rivalTheory) || undefined,
+        rubric: rubric(item.rubric)
+    };
+
+    if (type === QuestionType.CONCEPT_CHECK) {
+        const rawOptions = list(item.options).map(text);
+        const options = rawOptions.filter(Boolean);
+        if (options.length < 2) {
+            return { value: null, issues: [`${label} is CONCEPT_CHECK but has ${options.length} non-empty options (need at least 2)`] };
+        }
+        // The index refers to the options as given, so it is checked there and shifted past dropped empties
+        const index = item.correctOptionIndex;
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= rawOptions.length) {
+            return { value: null, issues: [`${label} has correctOptionIndex ${String(index)} outside 0-${rawOptions.length - 1}`] };
+        }
+        if (!rawOptions[index]) return { value: null, issues: [`${label} marks an empty option as correct`] };
+        const correctOptionIndex = rawOptions.slice(0, index).filter(Boolean).length;
+        return { value: { ...question, options, correctOptionIndex }, issues: [] };
+    }
+
+    if (type === QuestionType.COUNTER_THEORY && !question.rivalTheory) {
+        return { value: null, issues: [`${label} is COUNTER_THEORY but has no rivalTheory`] };
+    }
+    // Free-response items never show options; stray ones would switch the UI to multiple choice
+    return { value: { ...question, options: undefined, correctOptionIndex: -1 }, issues: [] };
+};
+
+export const validateQuestions = (raw: unknown): ValidationResult<GameQuestion[]> => {
+    const issues: string[] = [];
+    const questions = list(raw).flatMap((item, i) => {
+        const result = validateQuestion(item, `questions[${i}]`);
+        issues.push(...result.issues);
+        return result.value ? [result.value] : [];
+    });
+    if (questions.length === 0) issues.push('no usable questions were returned');
+    return { value: questions.length > 0 ? uniqueIds(questions, 'q') : null, issues };
+};
+
+export const validateSession: Validator<StudySessionData> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['response is not an object'] };
+    const concepts = validateConcepts(raw.concepts);
+    const questions = validateQuestions(raw.questions);
+    const issues = [...concepts.issues, ...questions.issues];
+    if (!concepts.value || !questions.value) return { value: null, issues };
+    return {
+        value: {
+            ...(raw as unknown as StudySessionData),
+            title: text(raw.title) || 'Untitled Session',
+            summary: text(raw.summary),
+            concepts: concepts.value,
+            questions: questions.value,
+            relations: list(raw.relations) as StudySessionData['relations']
+        },
+        issues
+    };
+};
+
+const DEEP_DIVE_SECTIONS: DeepDiveSection[] = ['theoreticalUnderpinnings', 'realWorldApplication', 'interdisciplinaryConnection'];
+
+export const validateDeepDive: Validator<DeepDiveContent> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['response is not an object'] };
+    const missing = DEEP_DIVE_SECTIONS.filter(section => !text(raw[section]));
+    if (missing.length === DEEP_DIVE_SECTIONS.length) return { value: null, issues: ['every deep dive section is empty'] };
+    return {
+        value: {
+            theoreticalUnderpinnings: text(raw.theoreticalUnderpinnings),
+            realWorldApplication: text(raw.realWorldApplication),
+            interdisciplinaryConnection: text(raw.interdisciplinaryConnection),
+            citations: list(raw.citations).filter(isObject)
+                .filter(c => DEEP_DIVE_SECTIONS.includes(c.section as DeepDiveSection) && text(c.quote))
+                .map(c => ({ ...citations([c])[0], section: c.section as DeepDiveSection }))
+        },
+        issues: missing.map(section => `${section} is empty`)
+    };
+};
+
+export interface RawGrade {
+    criteria: { id: string; score: number; evidence?: string }[];
+    missedKeyPoints: string[];
+    misconceptionsDetected: string[];
+    evidence: SourceCitation[];
+    feedback: string;
+}
+
+// Grader output before it is combined with the rubric into a ChallengeResult
+export const validateGrade = (criterionIds: string[]): Validator<RawGrade> => raw => {
+    if (!isObject(raw)) return { value: null, issues: ['response is not an object'] };
+    const criteria = list(raw.criteria).filter(isObject)
+        .filter(c => criterionIds.includes(text(c.id)))
+        .map(c => ({ id: text(c.id), score: clamp(c.score, 0, 100, 0), evidence: text(c.evidence) || undefined }));
+    const graded = new Set(criteria.map(c => c.id));
+    const ungraded = criterionIds.filter(id => !graded.has(id));
+    if (criteria.length === 0) return { value: null, issues: ['no rubric key points were graded'] };
+    return {
+        value: {
+            criteria,
+            missedKeyPoints: strings(raw.missedKeyPoints),
+            misconceptionsDetected: strings(raw.misconceptionsDetected),
+            evidence: citations(raw.evidence),
+            feedback: text(raw.feedback) || 'No feedback provided.'
+        },
+        issues: ungraded.map(id => `key point "${id}" was not graded`)
+    };
+};
+
+export interface RawCounterTheoryGrade extends RawGrade {
+    flawsIdentified: string[];
+    flawsMissed: string[];
+}
+
+export const validateCounterTheoryGrade = (criterionIds: string[]): Validator<RawCounterTheoryGrade> => raw => {
+    const { value, issues } = validateGrade(criterionIds)(raw);
+    if (!value) return { value: null, issues };
+    const grade = raw as Raw;
+    return { value: { ...value, flawsIdentified: strings(grade.flawsIdentified), flawsMissed: strings(grade.flawsMissed) }, issues };
+};
+
+// The rubric is optional here; without a usable one the caller grades against FALLBACK_RUBRIC
+export const validateChallenge: Validator<Omit<ConceptChallenge, 'rubric'> & { rubric?: Rubric }> = raw => {
+    if (!isObject(raw)) return { value: null, issues: ['response is not an object'] };
+    const question = text(raw.question);
+    if (!question) return { value: null, issues: ['question is empty'] };
+    const parsed = rubric(raw.rubric);
+    return { value: { question, rubric: parsed }, issues: parsed ? [] : ['rubric has no usable key points'] };
+};
@@ -2,8 +2,10 @@ export enum GameState {
   INIT = 'INIT',
   INGESTION = 'INGESTION',
   PROCESSING = 'PROCESSING',
+  REVIEW = 'REVIEW', // Instructor mode: generated content is edited and vetted before anyone studies it
   SESSION_ACTIVE = 'SESSION_ACTIVE',
-  SESSION_SUMMARY = 'SESSION_SUMMARY'
+  SESSION_SUMMARY = 'SESSION_SUMMARY',
+  LIBRARY = 'LIBRARY'
 }
 
 export enum QuestionType {
@@ -12,34 +14,160 @@ export enum QuestionType {
   COUNTER_THEORY = 'COUNTER_THEORY'
 }
 
+export type AudienceLevel = 'HIGH_SCHOOL' | 'UNDERGRADUATE' | 'GRADUATE' | 'EXPERT';
+
+// Knobs for generateGameSession; stored with each session so follow-up calls match its register
+export interface GenerationSettings {
+  conceptCount: number;
+  questionMix: Record<QuestionType, number>;
+  audience: AudienceLevel;
+  difficulty: number; // 1-10 target for GameQuestion.difficulty
+  language: string;
+}
+
+// Anchor back into the artifact. The model supplies the quote (and page for PDFs);
+// character offsets are resolved locally against text artifacts.
+export interface SourceCitation {
+  quote: string;
+  page?: number; // 1-based, PDFs only
+  start?: number;
+  end?: number;
+  source?: string; // SourceDocument id, multi-document sessions only
+}
+
 export interface StudyConcept {
   id: string;
   term: string;
   definition: string;
   analogy: string; // "Explain like I'm 5" or real-world parallel
   mastered: boolean; // Local state tracking
+  review?: ConceptReview; // Spaced-repetition state, absent until the first Sync Protocol
+  sourceChunk?: number; // Index into StudySessionData.sourceChunks for chunked ingestion
+  citations?: SourceCitation[];
+  sources?: string[]; // SourceDocument ids the concept is drawn from, multi-document sessions only
+}
+
+// A slice of a long text artifact, by character offsets into InputContext.content
+export interface SourceChunk {
+  index: number;
+  heading?: string;
+  start: number;
+  end: number;
+}
+
+// What a streaming generation has produced so far
+export interface SessionPreview {
+  title: string;
+  summary: string;
+  concepts: StudyConcept[];
+  conceptsTotal: number;
+  // The concept list is final, so the Data Core can open while questions are still generating
+  conceptsReady: boolean;
+  questionsReady: number;
+  questionsTotal: number;
+}
+
+export interface IngestionProgress {
+  // GENERATING is the single-pass path; long texts go through EXTRACTING then SYNTHESIZING
+  stage: 'GENERATING' | 'EXTRACTING' | 'SYNTHESIZING';
+  completed: number;
+  total: number;
+  chunks: { label: string; status: 'PENDING' | 'ACTIVE' | 'DONE' }[];
+  preview?: SessionPreview;
+}
+
+export interface ReviewLog {
+  reviewedAt: number;
+  score: number; // ChallengeResult.score, 0-100
+  quality: number; // SM-2 recall quality, 0-5
+  interval: number; // Days scheduled after this review
 }
 
+export interface ConceptReview {
+  ease: number;
+  interval: number; // Days
+  repetitions: number; // Consecutive successful recalls
+  due: number; // Epoch ms
+  history: ReviewLog[];
+}
+
+export type DeepDiveSection = 'theoreticalUnderpinnings' | 'realWorldApplication' | 'interdisciplinaryConnection';
+
 export interface DeepDiveContent {
   theoreticalUnderpinnings: string;
   realWorldApplication: string;
   interdisciplinaryConnection: string;
+  citations?: (SourceCitation & { section: DeepDiveSection })[];
+}
+
+export interface RubricKeyPoint {
+  id: string;
+  description: string;
+  weight: number; // Relative importance, 1-5
+}
+
+// Generated alongside each free-response question so every grader scores against the same bar
+export interface Rubric {
+  keyPoints: RubricKeyPoint[];
+  misconceptions: string[];
+}
+
+export interface CriterionScore {
+  id: string;
+  description: string;
+  weight: number;
+  score: number; // 0-100 for this key point
+  evidence?: string; // What in the answer earned (or failed to earn) the score
 }
 
 export interface ChallengeResult {
   passed: boolean;
-  score: number;
+  score: number; // Weighted across criteria, 0-100
   feedback: string;
+  criteria: CriterionScore[];
+  missedKeyPoints: string[];
+  misconceptionsDetected: string[];
+  evidence: SourceCitation[]; // Source passages that establish the correct answer
+}
+
+// COUNTER_THEORY grades are scored on COUNTER_THEORY_RUBRIC and also report the rival theory's flaws
+export interface CounterTheoryResult extends ChallengeResult {
+  flawsIdentified: string[];
+  flawsMissed: string[];
+}
+
+export interface ConceptChallenge {
+  question: string;
+  rubric: Rubric;
 }
 
 export interface GameQuestion {
   id: string;
   type: QuestionType;
   question: string;
+  rivalTheory?: string; // COUNTER_THEORY only: the plausible but flawed position to rebut
   options?: string[]; 
   correctOptionIndex?: number;
   explanation: string; 
   difficulty: number; 
+  citations?: SourceCitation[]; // Support for the explanation
+  rubric?: Rubric; // Free-response types only
+  conceptId?: string; // Set on follow-ups generated by the adaptive simulation
+  sources?: string[]; // SourceDocument ids the item draws on; several for cross-document comparisons
+}
+
+export enum RelationType {
+  PREREQUISITE_OF = 'PREREQUISITE_OF',
+  PART_OF = 'PART_OF',
+  CONTRASTS_WITH = 'CONTRASTS_WITH',
+  CAUSES = 'CAUSES'
+}
+
+// Directed edge between two concepts: "from" PREREQUISITE_OF "to" reads as "from is a prerequisite of to"
+export interface ConceptRelation {
+  from: string;
+  to: string;
+  type: RelationType;
 }
 
 export interface StudySessionData {
@@ -47,17 +175,114 @@ export interface StudySessionData {
   summary: string;
   concepts: StudyConcept[];
   questions: GameQuestion[];
+  relations?: ConceptRelation[];
+  sourceChunks?: SourceChunk[]; // Present only when the artifact was ingested in chunks
+  vettedAt?: number; // Set when an instructor reviewed and locked the content in the session editor
 }
 
 export interface PlayerStats {
   syncedNodes: number; // Number of concepts mastered
   stability: number; // 0-100%
   streak: number;
+  lastActiveAt?: number; // Drives idle decay; see services/rules.ts
+}
+
+// One artifact of a multi-document session. Text documents are stored inside the combined
+// InputContext.content between start and end; binary documents carry their own Base64 data.
+export interface SourceDocument {
+  id: string; // "S1", "S2", ... as cited by the model
+  fileName: string;
+  type: 'text' | 'file';
+  mimeType?: string;
+  data?: string;
+  start?: number;
+  end?: number;
+}
+
+// Character range of one PDF page inside InputContext.content
+export interface PageSpan {
+  page: number; // 1-based page number in the original PDF
+  start: number;
+  end: number;
 }
 
 export interface InputContext {
   type: 'text' | 'file';
-  content: string; // Text string or Base64 string
+  content: string; // Text string or Base64 string; the combined text of every text document for a set
   mimeType?: string;
   fileName?: string;
-}
\ No newline at end of file
+  documents?: SourceDocument[]; // Present when several artifacts were staged into one session
+  pages?: PageSpan[]; // Text extracted from a PDF, so citations can be mapped back to pages
+}
+
+export interface StabilityPoint {
+  time: number;
+  stability: number;
+}
+
+export interface QuestionAttempt {
+  questionId: string;
+  passed: boolean;
+  selectedOption?: number; // CONCEPT_CHECK
+  response?: string; // Free-text answers
+  score?: number; // Evaluator score for free-text answers, 0-100
+  feedback: string;
+  durationMs: number;
+  answeredAt: number;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export type TutorAction = 'HINT' | 'SIMPLER_ANALOGY' | 'QUIZ_ME';
+
+// Everything needed to drop a learner back into a session exactly where they left it
+export interface SessionProgress {
+  concepts: StudyConcept[];
+  deepDives: Record<string, DeepDiveContent>;
+  currentQIndex: number;
+  quizComplete: boolean;
+  stats: PlayerStats;
+  history: StabilityPoint[];
+  attempts: QuestionAttempt[];
+  activeConceptId: string | null;
+  viewMode: 'DATA_CORE' | 'SIMULATION';
+  tutorChats?: Record<string, ChatTurn[]>;
+  adaptive?: boolean;
+  questions?: GameQuestion[]; // Adaptive mode: the original questions plus generated follow-ups
+  learningPath?: boolean; // Order the nodes by prerequisites and recommend the next one
+  gatePrerequisites?: boolean; // Lock Sync Protocols until prerequisites are synchronized
+}
+
+export interface SavedSession {
+  id: string;
+  profileId?: string; // Owning LearnerProfile; sessions saved before profiles existed belong to the default profile
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  context: InputContext;
+  settings?: GenerationSettings;
+  data: StudySessionData;
+  progress?: SessionProgress;
+}
+
+// Remembered per learner as they change them
+export interface LearnerPreferences {
+  generation: GenerationSettings; // Calibration the upload screen starts from
+  instructorReview: boolean;
+  // Study modes a new session starts in
+  adaptive: boolean;
+  learningPath: boolean;
+  gatePrerequisites: boolean;
+}
+
+// A local learner on a shared machine. Sessions point at their profile through SavedSession.profileId.
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  preferences: LearnerPreferences;
+}